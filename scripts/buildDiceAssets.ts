@@ -0,0 +1,23 @@
+/// <reference types="node" />
+import { writeFileSync } from 'node:fs'
+import process from 'node:process'
+import { serializeDieGeometries } from '../src/diceGeometry'
+import { getDieGeometryKeys } from '../src/dieMeshes'
+import { DEFAULT_PIPS, THEMES } from '../src/theme'
+
+/**
+ * Builds the geometry of the dice in every theme with the default pips into
+ * `public/dice-geometry.bin`, which the demo loads at startup instead of building it. Dice
+ * with other edge radii or pips still work, their geometry is built when needed.
+ *
+ *   pnpm build:dice-assets
+ *
+ * `pnpm build` runs it first, so the asset always matches the code it was built with.
+ */
+
+const OUTPUT = 'public/dice-geometry.bin'
+
+const edgeRadii = [...new Set(Object.values(THEMES).map(theme => theme.edgeRadius))]
+const asset = serializeDieGeometries(edgeRadii.flatMap(edgeRadius => getDieGeometryKeys(edgeRadius, DEFAULT_PIPS)))
+writeFileSync(OUTPUT, new Uint8Array(asset))
+process.stdout.write(`Wrote ${(asset.byteLength / 1024).toFixed(0)} KiB of dice geometry to ${OUTPUT}\n`)
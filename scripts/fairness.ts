@@ -0,0 +1,227 @@
+/// <reference types="node" />
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import type { StandardDieType } from '../src/dice'
+import { getDieDefinition, isStandardDieType } from '../src/dice'
+import type { PhysicsPreset } from '../src/physics'
+import { PHYSICS_PRESETS, PHYSICS_PRESET_NAMES, PHYSICS_PRESET_SURFACES } from '../src/physics'
+import { DEFAULT_TRAY } from '../src/tray'
+import type { DieOutcome, SimulationStatus, TableRules } from '../src/simulation'
+import { COCKED_RULES, DEFAULT_SIMULATION_CONFIG, simulateThrow } from '../src/simulation'
+import type { FaceStatistics } from '../src/stats'
+import { computeFaceStatistics } from '../src/stats'
+
+/**
+ * Monte-Carlo fairness analysis of the headless simulation. Throws the same dice thousands of
+ * times for every combination of the given gravity and restitution values and reports face
+ * frequencies, chi-square p-values and how often throws landed on an edge, got stuck or
+ * timed out. The restitution is that of every contact, between the dice and of the dice with
+ * the floor and walls of the tray. Table rules for cocked dice can be compared the same way
+ * with `--cocked`, and `--physics` picks the preset the rest of the physics comes from.
+ *
+ *   pnpm fairness --dice d6,d20 --throws 2000 --gravity -50,-30 --restitution 0.1,0.3,0.5
+ *   pnpm fairness --physics casino-craps
+ *
+ * Seeds are `<seed>:<throw>`, so every run is reproducible and any suspicious throw can be
+ * replayed in the demo with `?seed=`.
+ */
+
+interface AnalysisSettings {
+  gravity: number
+  /** Of the dice with each other and with the floor and walls */
+  restitution: number
+  cockedRule: TableRules['cocked']
+}
+
+interface AnalysisReport extends AnalysisSettings {
+  throws: number
+  /** Attempts including retries */
+  attempts: number
+  /** Throws that did not settle even after all retries, left out of the statistics */
+  unsettled: number
+  edgeLandings: number
+  stuck: number
+  timedOut: number
+  /** Attempts given up on because of a cocked die, only with the `reroll-all` rule */
+  cocked: number
+  /** Dice thrown again under the `reroll-die` rule */
+  dieRerolls: number
+  /** Outcomes of the dice of settled throws */
+  outcomes: Record<DieOutcome, number>
+  /** Mean tilt in degrees of the settled dice */
+  meanTilt: number
+  /** Mean number of recorded frames of a settled throw */
+  meanFrames: number
+  statistics: Partial<Record<StandardDieType, FaceStatistics>>
+}
+
+const {
+  dice: diceOption = 'd6',
+  throws: throwsOption = '1000',
+  seed = 'fairness',
+  physics: presetOption = 'default',
+  gravity: gravityOption,
+  restitution: restitutionOption,
+  cocked: cockedOption = DEFAULT_SIMULATION_CONFIG.tableRules.cocked,
+  json = false,
+} = parseArgs({
+  options: {
+    dice: { type: 'string' },
+    throws: { type: 'string' },
+    seed: { type: 'string' },
+    physics: { type: 'string' },
+    gravity: { type: 'string' },
+    restitution: { type: 'string' },
+    cocked: { type: 'string' },
+    json: { type: 'boolean' },
+  },
+}).values
+
+const dice = diceOption.split(',').map(type => type.trim())
+if (!dice.length || !dice.every(isStandardDieType))
+  fail(`--dice must be a comma separated list of d4, d6, d8, d10, d12 or d20, got "${diceOption}"`)
+const throws = Number(throwsOption)
+if (!Number.isInteger(throws) || throws < 1)
+  fail(`--throws must be a positive integer, got "${throwsOption}"`)
+if (!Object.hasOwn(PHYSICS_PRESETS, presetOption))
+  fail(`--physics must be one of ${PHYSICS_PRESET_NAMES.join(', ')}, got "${presetOption}"`)
+const preset = PHYSICS_PRESETS[presetOption as PhysicsPreset]
+const { floor, walls } = PHYSICS_PRESET_SURFACES[presetOption as PhysicsPreset]
+const gravities = parseNumbers('gravity', gravityOption ?? String(preset.gravity))
+const restitutions = parseNumbers('restitution', restitutionOption ?? String(preset.restitution))
+const cockedRules = cockedOption.split(',').map(rule => rule.trim()) as TableRules['cocked'][]
+if (!cockedRules.every(rule => COCKED_RULES.includes(rule)))
+  fail(`--cocked must be a comma separated list of ${COCKED_RULES.join(', ')}, got "${cockedOption}"`)
+
+// Retries are expected here and tallied in the report instead
+console.warn = () => {}
+console.error = () => {}
+
+const reports = gravities.flatMap(gravity => restitutions.flatMap(restitution => cockedRules.map((cockedRule) => {
+  const report = analyze(dice as StandardDieType[], { gravity, restitution, cockedRule })
+  if (!json)
+    printReport(report)
+  return report
+})))
+
+if (json)
+  process.stdout.write(`${JSON.stringify(reports, null, 2)}\n`)
+else if (reports.length > 1)
+  printComparison(reports)
+
+function analyze(dice: StandardDieType[], settings: AnalysisSettings): AnalysisReport {
+  const faces = new Map<StandardDieType, number[]>(dice.map(type => [type, []]))
+  const failures: SimulationStatus[] = []
+  let unsettled = 0
+  let edgeLandings = 0
+  let frames = 0
+  let tilt = 0
+  let dieRerolls = 0
+  const outcomes: Record<DieOutcome, number> = { 'settled': 0, 'cocked': 0, 'out-of-bounds': 0, 'timed-out': 0 }
+
+  for (let i = 0; i < throws; i++) {
+    const { gravity, restitution, cockedRule } = settings
+    const tableRules = { ...DEFAULT_SIMULATION_CONFIG.tableRules, cocked: cockedRule }
+    const physics = { ...preset, gravity, restitution }
+    // The tray has its own surfaces, the dice would bounce off it the same for any restitution
+    const tray = { ...DEFAULT_TRAY, floor: { ...floor, restitution }, walls: { ...walls, restitution } }
+    const result = simulateThrow({ physics, tray, tableRules, dice, seed: `${seed}:${i}` })
+    failures.push(...result.failedAttempts)
+    edgeLandings += result.edgeLandings
+    dieRerolls += result.dieRerolls.reduce((sum, count) => sum + count, 0)
+    if (result.status !== 'settled') {
+      failures.push(result.status)
+      unsettled++
+    }
+    else {
+      frames += result.track.frameCount
+      tilt += result.faceReadings.reduce((sum, reading) => sum + reading.tilt, 0)
+      result.outcomes.forEach(outcome => outcomes[outcome]++)
+      result.rollResult.forEach((face, d) => faces.get(dice[d])!.push(face))
+    }
+    if (!json && (i + 1) % 100 === 0)
+      process.stderr.write(`\r${label(settings)}: ${i + 1}/${throws}`)
+  }
+  if (!json)
+    process.stderr.write('\r\x1B[K')
+
+  const statistics: AnalysisReport['statistics'] = {}
+  faces.forEach((values, type) => statistics[type] = computeFaceStatistics(values, getDieDefinition(type).sides))
+
+  return {
+    ...settings,
+    throws,
+    attempts: throws + failures.length - unsettled,
+    unsettled,
+    edgeLandings,
+    stuck: failures.filter(status => status === 'stuck').length,
+    timedOut: failures.filter(status => status === 'timed-out').length,
+    cocked: failures.filter(status => status === 'cocked').length,
+    dieRerolls,
+    outcomes,
+    meanTilt: throws > unsettled ? tilt / ((throws - unsettled) * dice.length) * 180 / Math.PI : 0,
+    meanFrames: throws > unsettled ? frames / (throws - unsettled) : 0,
+    statistics,
+  }
+}
+
+function printReport(report: AnalysisReport) {
+  const lines = [
+    `${label(report)}, ${report.throws} throws of ${dice.join(' ')} with ${presetOption} physics`,
+    `  attempts ${report.attempts}, unsettled ${report.unsettled}, `
+    + `stuck ${percent(report.stuck, report.attempts)}, timed out ${percent(report.timedOut, report.attempts)}, `
+    + `re-rolled cocked ${percent(report.cocked, report.attempts)}, single dice re-rolled ${report.dieRerolls}, `
+    + `edge landings ${(report.edgeLandings / report.throws).toFixed(3)} per throw, `
+    + `mean tilt ${report.meanTilt.toFixed(2)}°, `
+    + `${report.meanFrames.toFixed(0)} frames per throw`,
+    `  outcomes ${Object.entries(report.outcomes).map(([outcome, count]) => `${outcome} ${count}`).join(', ')}`,
+  ]
+  Object.entries(report.statistics).forEach(([type, stats]) => {
+    lines.push(
+      `  ${type}: ${stats.count} faces, mean ${stats.mean.toFixed(3)} (expected ${stats.expectedMean}), `
+      + `χ² ${stats.chiSquare.statistic.toFixed(2)}, p = ${stats.chiSquare.pValue.toFixed(4)} → ${stats.fairness}`,
+    )
+    stats.histogram.forEach((count, i) => lines.push(
+      `    ${String(i + 1).padStart(2)} ${percent(count, stats.count).padStart(6)} ${'█'.repeat(Math.round(count / stats.count * stats.sides * 20))}`,
+    ))
+  })
+  process.stdout.write(`${lines.join('\n')}\n\n`)
+}
+
+function printComparison(reports: AnalysisReport[]) {
+  const types = Object.keys(reports[0].statistics)
+  const header = ['gravity', 'dice+tray restitution', 'cocked', 'stuck', 'timed out', 're-rolled', 'edge/throw', ...types.map(type => `${type} p`)]
+  const rows = reports.map(report => [
+    String(report.gravity),
+    String(report.restitution),
+    report.cockedRule,
+    percent(report.stuck, report.attempts),
+    percent(report.timedOut, report.attempts),
+    percent(report.cocked, report.attempts),
+    (report.edgeLandings / report.throws).toFixed(3),
+    ...types.map(type => report.statistics[type as StandardDieType]!.chiSquare.pValue.toFixed(4)),
+  ])
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)))
+  const format = (row: string[]) => row.map((cell, i) => cell.padStart(widths[i])).join('  ')
+  process.stdout.write(`${[format(header), ...rows.map(format)].join('\n')}\n`)
+}
+
+function parseNumbers(name: string, value: string) {
+  const numbers = value.split(',').map(Number)
+  if (numbers.some(Number.isNaN))
+    fail(`--${name} must be a comma separated list of numbers, got "${value}"`)
+  return numbers
+}
+
+function label({ gravity, restitution, cockedRule }: AnalysisSettings) {
+  return `gravity ${gravity}, dice and tray restitution ${restitution}, cocked dice ${cockedRule}`
+}
+
+function percent(count: number, total: number) {
+  return `${(total ? count / total * 100 : 0).toFixed(1)}%`
+}
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`)
+  process.exit(1)
+}
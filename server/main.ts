@@ -0,0 +1,15 @@
+/// <reference types="node" />
+import process from 'node:process'
+import { DEFAULT_ROOM_PORT } from '../src/roomProtocol'
+import { createRoomServer } from './roomServer'
+
+/**
+ * Runs the room server, see `roomServer.ts`. Start with `pnpm room-server`, the port can be
+ * set with `ROOM_PORT`.
+ */
+
+const port = Number(process.env.ROOM_PORT) || DEFAULT_ROOM_PORT
+createRoomServer(port)
+
+// eslint-disable-next-line no-console
+console.log(`Room server listening on ws://localhost:${port}`)
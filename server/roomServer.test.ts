@@ -0,0 +1,108 @@
+/// <reference types="node" />
+import type { AddressInfo } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { WebSocketServer } from 'ws'
+import { WebSocket } from 'ws'
+import type { ServerMessage } from '../src/roomProtocol'
+import { createRoomServer } from './roomServer'
+
+interface TestClient {
+  send: (message: unknown) => void
+  /** The next message that arrives or already did */
+  next: () => Promise<ServerMessage>
+  close: () => void
+}
+
+let server: WebSocketServer
+
+beforeEach(() => {
+  server = createRoomServer(0)
+})
+
+afterEach(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+async function connect(): Promise<TestClient> {
+  const socket = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}`)
+  const received: ServerMessage[] = []
+  const waiting: ((message: ServerMessage) => void)[] = []
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString())
+    const resolve = waiting.shift()
+    if (resolve)
+      resolve(message)
+    else
+      received.push(message)
+  })
+  await new Promise(resolve => socket.once('open', resolve))
+  return {
+    send: message => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    next: () => received.length ? Promise.resolve(received.shift()!) : new Promise(resolve => waiting.push(resolve)),
+    close: () => socket.close(),
+  }
+}
+
+async function joinAs(name: string, room = 'table') {
+  const client = await connect()
+  client.send({ type: 'join', room, name })
+  const joined = await client.next()
+  return { client, joined }
+}
+
+describe('room server', () => {
+  it('answers invalid messages with an error and keeps running', async () => {
+    const client = await connect()
+    for (const message of ['{', 'null', '42', '"roll"', '{}', { type: 'dance' }, { type: 'join' }]) {
+      client.send(message)
+      expect((await client.next()).type, JSON.stringify(message)).toBe('error')
+    }
+    client.send({ type: 'roll', config: { dice: ['d6'] } })
+    expect(await client.next()).toEqual({ type: 'error', message: 'Join a room before rolling' })
+    client.close()
+  })
+
+  it('rejects invalid roll configs and magic rolls', async () => {
+    const { client } = await joinAs('Ann')
+    const invalid = [
+      undefined,
+      { dice: [] },
+      { dice: ['d7'] },
+      { dice: ['d6'], notation: 6 },
+      { dice: ['d6'], physics: { gravity: 10 } },
+      { dice: ['d6'], throw: { origin: [0, 0], velocity: [0, 0, 0], angularVelocity: [0, 0, 0] } },
+    ]
+    for (const config of invalid) {
+      client.send({ type: 'roll', config })
+      expect(await client.next(), JSON.stringify(config)).toEqual({ type: 'error', message: 'Invalid roll config' })
+    }
+    client.send({ type: 'roll', config: { dice: ['d6'], desiredRolls: [6] } })
+    expect(await client.next()).toMatchObject({ type: 'error' })
+    client.close()
+  })
+
+  it('broadcasts rolls with a seed of its own to everyone in the room', async () => {
+    const ann = await joinAs('Ann')
+    expect(ann.joined).toMatchObject({ type: 'joined', room: 'table', player: { name: 'Ann' }, log: [] })
+    const bob = await joinAs('Bob')
+    expect(bob.joined).toMatchObject({ type: 'joined', players: [{ name: 'Ann' }, { name: 'Bob' }] })
+    expect(await ann.client.next()).toMatchObject({ type: 'player-joined', player: { name: 'Bob' } })
+    const eve = await joinAs('Eve', 'elsewhere')
+
+    ann.client.send({ type: 'roll', seed: 'chosen', config: { dice: ['d6', 'd20'] } })
+    const [forAnn, forBob] = await Promise.all([ann.client.next(), bob.client.next()])
+    expect(forAnn).toEqual(forBob)
+    expect(forAnn).toMatchObject({ type: 'roll', entry: { id: 1, player: { name: 'Ann' }, config: { dice: ['d6', 'd20'] } } })
+    const { entry } = forAnn as Extract<ServerMessage, { type: 'roll' }>
+    expect(entry.seed).toMatch(/^[0-9a-f]{16}$/)
+
+    // Late joiners catch up from the log, other rooms hear nothing
+    const carl = await joinAs('Carl')
+    expect(carl.joined).toMatchObject({ type: 'joined', log: [entry] })
+    eve.client.send({ type: 'leave' })
+    ann.client.send({ type: 'leave' })
+    expect(await bob.client.next()).toMatchObject({ type: 'player-joined', player: { name: 'Carl' } })
+    expect(await bob.client.next()).toMatchObject({ type: 'player-left', player: { name: 'Ann' } })
+
+    for (const { client } of [ann, bob, carl, eve])
+      client.close()
+  })
+})
@@ -0,0 +1,183 @@
+/// <reference types="node" />
+import { randomBytes, randomUUID } from 'node:crypto'
+import type { WebSocket } from 'ws'
+import { WebSocketServer } from 'ws'
+import type { Vec3Tuple } from '../src/dice'
+import { isDieType } from '../src/dice'
+import type { ClientMessage, Player, RollConfig, RollEntry, ServerMessage } from '../src/roomProtocol'
+import { isValidPhysics } from '../src/physics'
+import type { TableRules } from '../src/simulation'
+import { COCKED_RULES, MAX_DICE, TABLE_RULES, createThrowDescriptor } from '../src/simulation'
+import { isValidTray } from '../src/tray'
+
+/**
+ * Reference server for shared roll rooms. It picks the seed of every roll, relays it with the
+ * dice config and keeps a per-room roll log for late joiners; all physics happens on the
+ * clients. Started by `server/main.ts`.
+ */
+
+const MAX_LOG_LENGTH = 100
+
+interface Room {
+  name: string
+  members: Map<WebSocket, Player>
+  log: RollEntry[]
+  nextRollId: number
+}
+
+/** Listens on `port`, 0 for any free one, see `WebSocketServer.address()` */
+export function createRoomServer(port: number) {
+  const rooms = new Map<string, Room>()
+  const server = new WebSocketServer({ port })
+  server.on('connection', socket => handleConnection(socket, rooms))
+  return server
+}
+
+function handleConnection(socket: WebSocket, rooms: Map<string, Room>) {
+  let room: Room | undefined
+
+  const handle = (message: ClientMessage) => {
+    switch (message.type) {
+      case 'join': {
+        if (room)
+          leave(rooms, socket, room)
+        if (typeof message.room !== 'string' || !message.room) {
+          send(socket, { type: 'error', message: 'Missing room name' })
+          return
+        }
+        room = join(rooms, socket, message.room, String(message.name || 'Anonymous').slice(0, 40))
+        break
+      }
+      case 'leave':
+        if (room)
+          leave(rooms, socket, room)
+        room = undefined
+        break
+      case 'roll': {
+        if (!room) {
+          send(socket, { type: 'error', message: 'Join a room before rolling' })
+          return
+        }
+        if (!isValidConfig(message.config)) {
+          send(socket, { type: 'error', message: 'Invalid roll config' })
+          return
+        }
+        // A magic roll lands on faces the player picked
+        if (message.config.desiredRolls) {
+          send(socket, { type: 'error', message: 'Magic rolls can\'t be shared in a room' })
+          return
+        }
+        // Everyone has to simulate the same hand throw, so it is rounded and limited here once
+        if (message.config.throw) {
+          const { origin, velocity, angularVelocity } = message.config.throw
+          message.config.throw = createThrowDescriptor(origin, velocity, angularVelocity)
+        }
+        const entry: RollEntry = {
+          id: room.nextRollId++,
+          player: room.members.get(socket)!,
+          timestamp: Date.now(),
+          // Never the player's, or they could pick a seed they know the outcome of
+          seed: randomBytes(8).toString('hex'),
+          config: message.config,
+        }
+        room.log.push(entry)
+        if (room.log.length > MAX_LOG_LENGTH)
+          room.log.shift()
+        broadcast(room, { type: 'roll', entry })
+        break
+      }
+      default:
+        send(socket, { type: 'error', message: 'Unknown message type' })
+    }
+  }
+
+  socket.on('message', (data) => {
+    let message: unknown
+    try {
+      message = JSON.parse(data.toString())
+    }
+    catch {
+      send(socket, { type: 'error', message: 'Messages must be JSON' })
+      return
+    }
+    if (!isClientMessage(message)) {
+      send(socket, { type: 'error', message: 'Messages must be objects with a type' })
+      return
+    }
+
+    // A message the checks above let through must not take the other rooms down with it
+    try {
+      handle(message)
+    }
+    catch (error) {
+      console.error('Could not handle a message:', error)
+      send(socket, { type: 'error', message: 'Could not handle the message' })
+    }
+  })
+
+  socket.on('close', () => {
+    if (room)
+      leave(rooms, socket, room)
+  })
+}
+
+function join(rooms: Map<string, Room>, socket: WebSocket, name: string, playerName: string) {
+  let room = rooms.get(name)
+  if (!room) {
+    room = { name, members: new Map(), log: [], nextRollId: 1 }
+    rooms.set(name, room)
+  }
+
+  const player: Player = { id: randomUUID(), name: playerName }
+  broadcast(room, { type: 'player-joined', player })
+  room.members.set(socket, player)
+  send(socket, { type: 'joined', room: name, player, players: [...room.members.values()], log: room.log })
+  return room
+}
+
+function leave(rooms: Map<string, Room>, socket: WebSocket, room: Room) {
+  const player = room.members.get(socket)
+  room.members.delete(socket)
+  if (player)
+    broadcast(room, { type: 'player-left', player })
+  // Rooms live as long as someone is in them
+  if (room.members.size === 0)
+    rooms.delete(room.name)
+}
+
+function isClientMessage(message: unknown): message is ClientMessage {
+  return typeof message === 'object' && message !== null && typeof (message as ClientMessage).type === 'string'
+}
+
+function isValidConfig(config: RollConfig | undefined): config is RollConfig {
+  return !!config
+    && Array.isArray(config.dice)
+    && config.dice.length >= 1
+    && config.dice.length <= MAX_DICE
+    && config.dice.every(isDieType)
+    && (config.notation === undefined || typeof config.notation === 'string')
+    && (config.desiredRolls === undefined || (Array.isArray(config.desiredRolls) && config.desiredRolls.every(Number.isInteger)))
+    && (config.tableRules === undefined || isValidRules(config.tableRules))
+    && (config.physics === undefined || isValidPhysics(config.physics))
+    && (config.tray === undefined || isValidTray(config.tray))
+    && (!config.throw || [config.throw.origin, config.throw.velocity, config.throw.angularVelocity].every(isVector))
+}
+
+function isValidRules(rules: TableRules) {
+  return !!rules
+    && COCKED_RULES.includes(rules.cocked)
+    && TABLE_RULES.includes(rules.outOfBounds)
+    && TABLE_RULES.includes(rules.timedOut)
+}
+
+function isVector(vector: Vec3Tuple | undefined) {
+  return Array.isArray(vector) && vector.length === 3 && vector.every(Number.isFinite)
+}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  socket.send(JSON.stringify(message))
+}
+
+function broadcast(room: Room, message: ServerMessage) {
+  room.members.forEach((_, socket) => send(socket, message))
+}
@@ -0,0 +1,199 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import {
+  BufferGeometryUtilsError,
+  computeMorphedAttributes,
+  estimateBytesUsed,
+  interleaveAttributes,
+  mergeBufferGeometries,
+  mergeGroups,
+  mergeVertices,
+} from './BufferGeometryUtils'
+
+/** Triangles as sorted lists of their corner positions, to compare geometries regardless of order */
+function getTriangles(geometry: THREE.BufferGeometry) {
+  const position = geometry.attributes.position
+  const count = geometry.index ? geometry.index.count : position.count
+  const corner = (i: number) => {
+    const vertex = geometry.index ? geometry.index.getX(i) : i
+    return [position.getX(vertex), position.getY(vertex), position.getZ(vertex)].map(v => v.toFixed(4)).join(',')
+  }
+  const triangles: string[] = []
+  for (let i = 0; i < count; i += 3)
+    triangles.push([corner(i), corner(i + 1), corner(i + 2)].join(' '))
+  return triangles.sort()
+}
+
+function expectValidIndex(geometry: THREE.BufferGeometry) {
+  const { index, attributes } = geometry
+  expect(index).not.toBeNull()
+  expect(index!.count % 3).toBe(0)
+  for (let i = 0; i < index!.count; i++) {
+    expect(index!.getX(i)).toBeGreaterThanOrEqual(0)
+    expect(index!.getX(i)).toBeLessThan(attributes.position.count)
+  }
+}
+
+describe('mergeBufferGeometries', () => {
+  const parts = () => [
+    new THREE.PlaneGeometry(1, 1),
+    new THREE.PlaneGeometry(1, 1, 2, 2).translate(0, 0, 1),
+    new THREE.CircleGeometry(1, 8).translate(0, 0, 2),
+  ]
+
+  it('adds up the vertices and offsets the indices', () => {
+    const geometries = parts()
+    const merged = mergeBufferGeometries(geometries)
+    expect(merged.attributes.position.count).toBe(geometries.reduce((sum, { attributes }) => sum + attributes.position.count, 0))
+    expect(merged.index!.count).toBe(geometries.reduce((sum, { index }) => sum + index!.count, 0))
+    expectValidIndex(merged)
+    expect(getTriangles(merged)).toEqual(geometries.flatMap(getTriangles).sort())
+  })
+
+  it('makes a group per geometry', () => {
+    const geometries = parts()
+    const merged = mergeBufferGeometries(geometries, true)
+    expect(merged.groups).toEqual([
+      { start: 0, count: 6, materialIndex: 0 },
+      { start: 6, count: 24, materialIndex: 1 },
+      { start: 30, count: 24, materialIndex: 2 },
+    ])
+  })
+
+  it('merges geometries without an index', () => {
+    const geometries = parts().map(geometry => geometry.toNonIndexed())
+    const merged = mergeBufferGeometries(geometries)
+    expect(merged.index).toBeNull()
+    expect(merged.attributes.position.count).toBe(6 + 24 + 24)
+  })
+
+  it('refuses geometries that do not match', () => {
+    expect(() => mergeBufferGeometries([new THREE.PlaneGeometry(), new THREE.PlaneGeometry().toNonIndexed()])).toThrow(BufferGeometryUtilsError)
+    const withoutUVs = new THREE.PlaneGeometry()
+    withoutUVs.deleteAttribute('uv')
+    expect(() => mergeBufferGeometries([new THREE.PlaneGeometry(), withoutUVs])).toThrow(BufferGeometryUtilsError)
+  })
+})
+
+describe('mergeVertices', () => {
+  it('shares the corners of a box without normals and UVs', () => {
+    const box = new THREE.BoxGeometry(1, 1, 1, 2, 2, 2)
+    box.deleteAttribute('normal')
+    box.deleteAttribute('uv')
+    const merged = mergeVertices(box)
+    // The vertices of a 3 x 3 x 3 grid but its center
+    expect(merged.attributes.position.count).toBe(26)
+    expect(merged.index!.count).toBe(box.index!.count)
+    expectValidIndex(merged)
+    expect(getTriangles(merged)).toEqual(getTriangles(box))
+  })
+
+  it('keeps vertices apart that differ in another attribute', () => {
+    const merged = mergeVertices(new THREE.BoxGeometry())
+    expect(merged.attributes.position.count).toBe(24)
+  })
+
+  it('indexes a geometry without an index', () => {
+    const plane = new THREE.PlaneGeometry(1, 1, 3, 3)
+    const merged = mergeVertices(plane.toNonIndexed())
+    expect(merged.attributes.position.count).toBe(plane.attributes.position.count)
+    expectValidIndex(merged)
+    expect(getTriangles(merged)).toEqual(getTriangles(plane))
+  })
+})
+
+describe('mergeGroups', () => {
+  // A box with a group per face, opposite faces sharing a material
+  const pairedBox = () => {
+    const box = new THREE.BoxGeometry(1, 1, 1, 2, 2, 2)
+    box.groups.forEach((group, face) => group.materialIndex = Math.floor(face / 2))
+    return box
+  }
+
+  it('merges the groups of each material', () => {
+    const box = pairedBox()
+    const merged = mergeGroups(box)
+    expect(merged.groups).toEqual([
+      { start: 0, count: 48, materialIndex: 0 },
+      { start: 48, count: 48, materialIndex: 1 },
+      { start: 96, count: 48, materialIndex: 2 },
+    ])
+    expect(merged.attributes.position.count).toBe(box.attributes.position.count)
+    expectValidIndex(merged)
+    expect(getTriangles(merged)).toEqual(getTriangles(box))
+  })
+
+  it('keeps each triangle with its material', () => {
+    const box = pairedBox()
+    const merged = mergeGroups(box)
+    merged.groups.forEach(({ start, count, materialIndex }) => {
+      const original = box.groups.filter(group => group.materialIndex === materialIndex)
+      const subset = (geometry: THREE.BufferGeometry, ranges: { start: number, count: number }[]) => {
+        const part = geometry.clone()
+        part.setIndex(ranges.flatMap(range => Array.from({ length: range.count }, (_, i) => geometry.index!.getX(range.start + i))))
+        return getTriangles(part)
+      }
+      expect(subset(merged, [{ start, count }])).toEqual(subset(box, original))
+    })
+  })
+
+  it('reorders the vertices of a geometry without an index', () => {
+    const box = pairedBox().toNonIndexed()
+    box.clearGroups()
+    for (let face = 0; face < 6; face++)
+      box.addGroup(face * 24, 24, face % 2)
+    const merged = mergeGroups(box)
+    expect(merged.index).toBeNull()
+    expect(merged.groups).toEqual([
+      { start: 0, count: 72, materialIndex: 0 },
+      { start: 72, count: 72, materialIndex: 1 },
+    ])
+    expect(merged.attributes.position.count).toBe(box.attributes.position.count)
+    expect(merged.attributes.uv.count).toBe(box.attributes.uv.count)
+    expect(getTriangles(merged)).toEqual(getTriangles(box))
+  })
+})
+
+describe('interleaveAttributes', () => {
+  it('puts the attributes into one buffer', () => {
+    const position = new THREE.Float32BufferAttribute([1, 2, 3, 4, 5, 6], 3)
+    const uv = new THREE.Float32BufferAttribute([7, 8, 9, 10], 2)
+    const [interleavedPosition, interleavedUV] = interleaveAttributes([position, uv])
+    expect(interleavedPosition.data).toBe(interleavedUV.data)
+    expect(interleavedPosition.data.stride).toBe(5)
+    expect(Array.from(interleavedPosition.data.array)).toEqual([1, 2, 3, 7, 8, 4, 5, 6, 9, 10])
+    expect([interleavedUV.getX(1), interleavedUV.getY(1)]).toEqual([9, 10])
+  })
+
+  it('refuses attributes of different array types', () => {
+    expect(() => interleaveAttributes([
+      new THREE.Float32BufferAttribute([1, 2, 3], 3),
+      new THREE.Uint16BufferAttribute([1, 2], 2),
+    ])).toThrow(BufferGeometryUtilsError)
+  })
+})
+
+describe('estimateBytesUsed', () => {
+  it('counts the attributes and the index', () => {
+    const plane = new THREE.PlaneGeometry()
+    // 4 vertices of position, normal and uv as floats, and 6 16-bit indices
+    expect(estimateBytesUsed(plane)).toBe(4 * (3 + 3 + 2) * 4 + 6 * 2)
+  })
+})
+
+describe('computeMorphedAttributes', () => {
+  it('applies the morph targets by their influence', () => {
+    const plane = new THREE.PlaneGeometry()
+    plane.morphAttributes.position = [new THREE.Float32BufferAttribute(Array.from(plane.attributes.position.array, v => v * 3), 3)]
+    const mesh = new THREE.Mesh(plane, new THREE.MeshBasicMaterial())
+    mesh.updateMorphTargets()
+    mesh.morphTargetInfluences![0] = 0.5
+
+    const { positionAttribute, morphedPositionAttribute, morphedNormalAttribute } = computeMorphedAttributes(mesh)
+    expect(positionAttribute).toBe(plane.attributes.position)
+    expect(morphedPositionAttribute.count).toBe(4)
+    for (let i = 0; i < 4; i++)
+      expect(morphedPositionAttribute.getX(i)).toBeCloseTo(positionAttribute.getX(i) * 2)
+    expect(morphedNormalAttribute!.getZ(0)).toBe(1)
+  })
+})
@@ -1,946 +1,328 @@
-/* eslint-disable eslint-comments/no-unlimited-disable */
-/* eslint-disable */
-// @ts-nocheck
-import {
-	BufferAttribute,
-	BufferGeometry,
-	Float32BufferAttribute,
-	InterleavedBuffer,
-	InterleavedBufferAttribute,
-	TriangleFanDrawMode,
-	TriangleStripDrawMode,
-	TrianglesDrawMode,
-	Vector3
-} from 'three';
-
-
-function computeTangents( geometry ) {
-
-	geometry.computeTangents();
-	console.warn( 'THREE.BufferGeometryUtils: .computeTangents() has been removed. Use BufferGeometry.computeTangents() instead.' );
-
-}
+import * as THREE from 'three'
 
 /**
-	 * @param  {Array<BufferGeometry>} geometries
-	 * @param  {Boolean} useGroups
-	 * @return {BufferGeometry}
-	 */
-function mergeBufferGeometries( geometries, useGroups = false ) {
-
-	const isIndexed = geometries[ 0 ].index !== null;
-
-	const attributesUsed = new Set( Object.keys( geometries[ 0 ].attributes ) );
-	const morphAttributesUsed = new Set( Object.keys( geometries[ 0 ].morphAttributes ) );
-
-	const attributes = {};
-	const morphAttributes = {};
-
-	const morphTargetsRelative = geometries[ 0 ].morphTargetsRelative;
-
-	const mergedGeometry = new BufferGeometry();
-
-	let offset = 0;
-
-	for ( let i = 0; i < geometries.length; ++ i ) {
-
-		const geometry = geometries[ i ];
-		let attributesCount = 0;
-
-		// ensure that all geometries are indexed, or none
-
-		if ( isIndexed !== ( geometry.index !== null ) ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '. All geometries must have compatible attributes; make sure index attribute exists among all geometries, or in none of them.' );
-			return null;
-
-		}
-
-		// gather attributes, exit early if they're different
-
-		for ( const name in geometry.attributes ) {
-
-			if ( ! attributesUsed.has( name ) ) {
-
-				console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '. All geometries must have compatible attributes; make sure "' + name + '" attribute exists among all geometries, or in none of them.' );
-				return null;
-
-			}
-
-			if ( attributes[ name ] === undefined ) attributes[ name ] = [];
-
-			attributes[ name ].push( geometry.attributes[ name ] );
-
-			attributesCount ++;
-
-		}
-
-		// ensure geometries have the same number of attributes
-
-		if ( attributesCount !== attributesUsed.size ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '. Make sure all geometries have the same number of attributes.' );
-			return null;
-
-		}
-
-		// gather morph attributes, exit early if they're different
-
-		if ( morphTargetsRelative !== geometry.morphTargetsRelative ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '. .morphTargetsRelative must be consistent throughout all geometries.' );
-			return null;
-
-		}
-
-		for ( const name in geometry.morphAttributes ) {
-
-			if ( ! morphAttributesUsed.has( name ) ) {
-
-				console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '.  .morphAttributes must be consistent throughout all geometries.' );
-				return null;
-
-			}
-
-			if ( morphAttributes[ name ] === undefined ) morphAttributes[ name ] = [];
-
-			morphAttributes[ name ].push( geometry.morphAttributes[ name ] );
-
-		}
-
-		// gather .userData
-
-		mergedGeometry.userData.mergedUserData = mergedGeometry.userData.mergedUserData || [];
-		mergedGeometry.userData.mergedUserData.push( geometry.userData );
-
-		if ( useGroups ) {
-
-			let count;
-
-			if ( isIndexed ) {
-
-				count = geometry.index.count;
-
-			} else if ( geometry.attributes.position !== undefined ) {
-
-				count = geometry.attributes.position.count;
-
-			} else {
-
-				console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed with geometry at index ' + i + '. The geometry must have either an index or a position attribute' );
-				return null;
-
-			}
-
-			mergedGeometry.addGroup( offset, count, i );
-
-			offset += count;
-
-		}
-
-	}
-
-	// merge indices
-
-	if ( isIndexed ) {
-
-		let indexOffset = 0;
-		const mergedIndex = [];
-
-		for ( let i = 0; i < geometries.length; ++ i ) {
-
-			const index = geometries[ i ].index;
-
-			for ( let j = 0; j < index.count; ++ j ) {
-
-				mergedIndex.push( index.getX( j ) + indexOffset );
-
-			}
-
-			indexOffset += geometries[ i ].attributes.position.count;
-
-		}
-
-		mergedGeometry.setIndex( mergedIndex );
-
-	}
-
-	// merge attributes
-
-	for ( const name in attributes ) {
-
-		const mergedAttribute = mergeBufferAttributes( attributes[ name ] );
-
-		if ( ! mergedAttribute ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed while trying to merge the ' + name + ' attribute.' );
-			return null;
-
-		}
-
-		mergedGeometry.setAttribute( name, mergedAttribute );
-
-	}
-
-	// merge morph attributes
-
-	for ( const name in morphAttributes ) {
-
-		const numMorphTargets = morphAttributes[ name ][ 0 ].length;
-
-		if ( numMorphTargets === 0 ) break;
-
-		mergedGeometry.morphAttributes = mergedGeometry.morphAttributes || {};
-		mergedGeometry.morphAttributes[ name ] = [];
-
-		for ( let i = 0; i < numMorphTargets; ++ i ) {
-
-			const morphAttributesToMerge = [];
-
-			for ( let j = 0; j < morphAttributes[ name ].length; ++ j ) {
-
-				morphAttributesToMerge.push( morphAttributes[ name ][ j ][ i ] );
-
-			}
-
-			const mergedMorphAttribute = mergeBufferAttributes( morphAttributesToMerge );
-
-			if ( ! mergedMorphAttribute ) {
-
-				console.error( 'THREE.BufferGeometryUtils: .mergeBufferGeometries() failed while trying to merge the ' + name + ' morphAttribute.' );
-				return null;
-
-			}
-
-			mergedGeometry.morphAttributes[ name ].push( mergedMorphAttribute );
-
-		}
-
-	}
-
-	return mergedGeometry;
-
-}
-
-/**
- * @param {Array<BufferAttribute>} attributes
- * @return {BufferAttribute}
+ * The parts of `three/examples/jsm/utils/BufferGeometryUtils.js` the dice are built with, typed
+ * and trimmed down. Unlike the original, functions throw a `BufferGeometryUtilsError` instead of
+ * logging and returning null, and `mergeGroups` is new.
  */
-function mergeBufferAttributes( attributes ) {
-
-	let TypedArray;
-	let itemSize;
-	let normalized;
-	let arrayLength = 0;
-
-	for ( let i = 0; i < attributes.length; ++ i ) {
-
-		const attribute = attributes[ i ];
-
-		if ( attribute.isInterleavedBufferAttribute ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferAttributes() failed. InterleavedBufferAttributes are not supported.' );
-			return null;
 
-		}
+type TypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array
 
-		if ( TypedArray === undefined ) TypedArray = attribute.array.constructor;
-		if ( TypedArray !== attribute.array.constructor ) {
+type TypedArrayConstructor = new (values: number | ArrayLike<number>) => TypedArray
 
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferAttributes() failed. BufferAttribute.array must be of consistent array types across matching attributes.' );
-			return null;
-
-		}
-
-		if ( itemSize === undefined ) itemSize = attribute.itemSize;
-		if ( itemSize !== attribute.itemSize ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferAttributes() failed. BufferAttribute.itemSize must be consistent across matching attributes.' );
-			return null;
-
-		}
-
-		if ( normalized === undefined ) normalized = attribute.normalized;
-		if ( normalized !== attribute.normalized ) {
-
-			console.error( 'THREE.BufferGeometryUtils: .mergeBufferAttributes() failed. BufferAttribute.normalized must be consistent across matching attributes.' );
-			return null;
-
-		}
-
-		arrayLength += attribute.array.length;
-
-	}
-
-	const array = new TypedArray( arrayLength );
-	let offset = 0;
-
-	for ( let i = 0; i < attributes.length; ++ i ) {
-
-		array.set( attributes[ i ].array, offset );
-
-		offset += attributes[ i ].array.length;
-
-	}
-
-	return new BufferAttribute( array, itemSize, normalized );
+type Attribute = THREE.BufferAttribute | THREE.InterleavedBufferAttribute
 
+export interface MorphedAttributes {
+  positionAttribute: Attribute
+  normalAttribute?: Attribute
+  /** Positions with the morph targets and skinning of the object applied */
+  morphedPositionAttribute: THREE.Float32BufferAttribute
+  morphedNormalAttribute?: THREE.Float32BufferAttribute
 }
 
-/**
- * @param {Array<BufferAttribute>} attributes
- * @return {Array<InterleavedBufferAttribute>}
- */
-function interleaveAttributes( attributes ) {
-
-	// Interleaves the provided attributes into an InterleavedBuffer and returns
-	// a set of InterleavedBufferAttributes for each attribute
-	let TypedArray;
-	let arrayLength = 0;
-	let stride = 0;
-
-	// calculate the the length and type of the interleavedBuffer
-	for ( let i = 0, l = attributes.length; i < l; ++ i ) {
-
-		const attribute = attributes[ i ];
-
-		if ( TypedArray === undefined ) TypedArray = attribute.array.constructor;
-		if ( TypedArray !== attribute.array.constructor ) {
-
-			console.error( 'AttributeBuffers of different types cannot be interleaved' );
-			return null;
-
-		}
-
-		arrayLength += attribute.array.length;
-		stride += attribute.itemSize;
-
-	}
-
-	// Create the set of buffer attributes
-	const interleavedBuffer = new InterleavedBuffer( new TypedArray( arrayLength ), stride );
-	let offset = 0;
-	const res = [];
-	const getters = [ 'getX', 'getY', 'getZ', 'getW' ];
-	const setters = [ 'setX', 'setY', 'setZ', 'setW' ];
-
-	for ( let j = 0, l = attributes.length; j < l; j ++ ) {
-
-		const attribute = attributes[ j ];
-		const itemSize = attribute.itemSize;
-		const count = attribute.count;
-		const iba = new InterleavedBufferAttribute( interleavedBuffer, itemSize, offset, attribute.normalized );
-		res.push( iba );
-
-		offset += itemSize;
-
-		// Move the data for each attribute into the new interleavedBuffer
-		// at the appropriate offset
-		for ( let c = 0; c < count; c ++ ) {
-
-			for ( let k = 0; k < itemSize; k ++ ) {
-
-				iba[ setters[ k ] ]( c, attribute[ getters[ k ] ]( c ) );
-
-			}
-
-		}
-
-	}
-
-	return res;
-
+export class BufferGeometryUtilsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BufferGeometryUtilsError'
+  }
 }
 
 /**
- * @param {Array<BufferGeometry>} geometry
- * @return {number}
+ * One geometry out of `geometries`, which must all be indexed or not and have the same
+ * attributes. With `useGroups`, each of them becomes a group with its index as material index.
  */
-function estimateBytesUsed( geometry ) {
-
-	// Return the estimated memory used by this geometry in bytes
-	// Calculate using itemSize, count, and BYTES_PER_ELEMENT to account
-	// for InterleavedBufferAttributes.
-	let mem = 0;
-	for ( const name in geometry.attributes ) {
-
-		const attr = geometry.getAttribute( name );
-		mem += attr.count * attr.itemSize * attr.array.BYTES_PER_ELEMENT;
-
-	}
-
-	const indices = geometry.getIndex();
-	mem += indices ? indices.count * indices.itemSize * indices.array.BYTES_PER_ELEMENT : 0;
-	return mem;
-
+export function mergeBufferGeometries(geometries: THREE.BufferGeometry[], useGroups = false) {
+  const [first] = geometries
+  const isIndexed = first.index !== null
+  const attributeNames = Object.keys(first.attributes)
+  const morphAttributeNames = Object.keys(first.morphAttributes)
+  const mergedGeometry = new THREE.BufferGeometry()
+  mergedGeometry.userData.mergedUserData = []
+
+  let offset = 0
+  geometries.forEach((geometry, i) => {
+    const fail = (reason: string) => new BufferGeometryUtilsError(`Could not merge geometry ${i}: ${reason}`)
+    if (isIndexed !== (geometry.index !== null))
+      throw fail('either all geometries must be indexed or none')
+    if (!haveSameKeys(geometry.attributes, attributeNames))
+      throw fail(`the attributes must be ${attributeNames.join(', ')} like in the first geometry`)
+    if (geometry.morphTargetsRelative !== first.morphTargetsRelative)
+      throw fail('morphTargetsRelative must be the same throughout')
+    if (!haveSameKeys(geometry.morphAttributes, morphAttributeNames))
+      throw fail('the morph attributes must be the same throughout')
+
+    mergedGeometry.userData.mergedUserData.push(geometry.userData)
+    if (useGroups) {
+      const count = geometry.index?.count ?? geometry.attributes.position?.count
+      if (count === undefined)
+        throw fail('the geometry needs an index or a position attribute')
+      mergedGeometry.addGroup(offset, count, i)
+      offset += count
+    }
+  })
+
+  if (isIndexed) {
+    const mergedIndex: number[] = []
+    let indexOffset = 0
+    geometries.forEach(({ index, attributes }) => {
+      for (let i = 0; i < index!.count; i++)
+        mergedIndex.push(index!.getX(i) + indexOffset)
+      indexOffset += attributes.position.count
+    })
+    mergedGeometry.setIndex(mergedIndex)
+  }
+
+  attributeNames.forEach(name =>
+    mergedGeometry.setAttribute(name, mergeBufferAttributes(geometries.map(({ attributes }) => attributes[name]))))
+
+  mergedGeometry.morphTargetsRelative = first.morphTargetsRelative
+  morphAttributeNames.forEach((name) => {
+    mergedGeometry.morphAttributes[name] = first.morphAttributes[name].map((_, target) =>
+      mergeBufferAttributes(geometries.map(({ morphAttributes }) => morphAttributes[name][target])))
+  })
+
+  return mergedGeometry
 }
 
 /**
- * @param {BufferGeometry} geometry
- * @param {number} tolerance
- * @return {BufferGeometry>}
+ * Merges vertices whose attributes all agree within `tolerance`, indexing the geometry if it
+ * wasn't already.
  */
-function mergeVertices( geometry, tolerance = 1e-4 ) {
-
-	tolerance = Math.max( tolerance, Number.EPSILON );
-
-	// Generate an index buffer if the geometry doesn't have one, or optimize it
-	// if it's already available.
-	const hashToIndex = {};
-	const indices = geometry.getIndex();
-	const positions = geometry.getAttribute( 'position' );
-	const vertexCount = indices ? indices.count : positions.count;
-
-	// next value for triangle indices
-	let nextIndex = 0;
-
-	// attributes and new attribute arrays
-	const attributeNames = Object.keys( geometry.attributes );
-	const attrArrays = {};
-	const morphAttrsArrays = {};
-	const newIndices = [];
-	const getters = [ 'getX', 'getY', 'getZ', 'getW' ];
-
-	// initialize the arrays
-	for ( let i = 0, l = attributeNames.length; i < l; i ++ ) {
-
-		const name = attributeNames[ i ];
-
-		attrArrays[ name ] = [];
-
-		const morphAttr = geometry.morphAttributes[ name ];
-		if ( morphAttr ) {
-
-			morphAttrsArrays[ name ] = new Array( morphAttr.length ).fill().map( () => [] );
-
-		}
-
-	}
-
-	// convert the error tolerance to an amount of decimal places to truncate to
-	const decimalShift = Math.log10( 1 / tolerance );
-	const shiftMultiplier = Math.pow( 10, decimalShift );
-	for ( let i = 0; i < vertexCount; i ++ ) {
-
-		const index = indices ? indices.getX( i ) : i;
-
-		// Generate a hash for the vertex attributes at the current index 'i'
-		let hash = '';
-		for ( let j = 0, l = attributeNames.length; j < l; j ++ ) {
-
-			const name = attributeNames[ j ];
-			const attribute = geometry.getAttribute( name );
-			const itemSize = attribute.itemSize;
-
-			for ( let k = 0; k < itemSize; k ++ ) {
-
-				// double tilde truncates the decimal value
-				hash += `${ ~ ~ ( attribute[ getters[ k ] ]( index ) * shiftMultiplier ) },`;
-
-			}
-
-		}
-
-		// Add another reference to the vertex if it's already
-		// used by another index
-		if ( hash in hashToIndex ) {
-
-			newIndices.push( hashToIndex[ hash ] );
-
-		} else {
-
-			// copy data to the new index in the attribute arrays
-			for ( let j = 0, l = attributeNames.length; j < l; j ++ ) {
-
-				const name = attributeNames[ j ];
-				const attribute = geometry.getAttribute( name );
-				const morphAttr = geometry.morphAttributes[ name ];
-				const itemSize = attribute.itemSize;
-				const newarray = attrArrays[ name ];
-				const newMorphArrays = morphAttrsArrays[ name ];
-
-				for ( let k = 0; k < itemSize; k ++ ) {
-
-					const getterFunc = getters[ k ];
-					newarray.push( attribute[ getterFunc ]( index ) );
-
-					if ( morphAttr ) {
-
-						for ( let m = 0, ml = morphAttr.length; m < ml; m ++ ) {
-
-							newMorphArrays[ m ].push( morphAttr[ m ][ getterFunc ]( index ) );
-
-						}
-
-					}
-
-				}
-
-			}
-
-			hashToIndex[ hash ] = nextIndex;
-			newIndices.push( nextIndex );
-			nextIndex ++;
-
-		}
-
-	}
-
-	// Generate typed arrays from new attribute arrays and update
-	// the attributeBuffers
-	const result = geometry.clone();
-	for ( let i = 0, l = attributeNames.length; i < l; i ++ ) {
-
-		const name = attributeNames[ i ];
-		const oldAttribute = geometry.getAttribute( name );
-
-		const buffer = new oldAttribute.array.constructor( attrArrays[ name ] );
-		const attribute = new BufferAttribute( buffer, oldAttribute.itemSize, oldAttribute.normalized );
-
-		result.setAttribute( name, attribute );
-
-		// Update the attribute arrays
-		if ( name in morphAttrsArrays ) {
-
-			for ( let j = 0; j < morphAttrsArrays[ name ].length; j ++ ) {
-
-				const oldMorphAttribute = geometry.morphAttributes[ name ][ j ];
-
-				const buffer = new oldMorphAttribute.array.constructor( morphAttrsArrays[ name ][ j ] );
-				const morphAttribute = new BufferAttribute( buffer, oldMorphAttribute.itemSize, oldMorphAttribute.normalized );
-				result.morphAttributes[ name ][ j ] = morphAttribute;
-
-			}
-
-		}
-
-	}
-
-	// indices
-
-	result.setIndex( newIndices );
-
-	return result;
-
+export function mergeVertices(geometry: THREE.BufferGeometry, tolerance = 1e-4) {
+  tolerance = Math.max(tolerance, Number.EPSILON)
+
+  const hashToIndex = new Map<string, number>()
+  const indices = geometry.getIndex()
+  const positions = geometry.getAttribute('position')
+  const vertexCount = indices ? indices.count : positions.count
+  const attributeNames = Object.keys(geometry.attributes)
+  const attributeArrays = new Map(attributeNames.map(name => [name, [] as number[]]))
+  const morphAttributeArrays = new Map(attributeNames
+    .filter(name => geometry.morphAttributes[name])
+    .map(name => [name, geometry.morphAttributes[name].map(() => [] as number[])]))
+  const newIndices: number[] = []
+
+  // Values are truncated to this many decimal places when hashed
+  const shiftMultiplier = 10 ** Math.log10(1 / tolerance)
+  for (let i = 0; i < vertexCount; i++) {
+    const index = indices ? indices.getX(i) : i
+
+    let hash = ''
+    attributeNames.forEach((name) => {
+      const attribute = geometry.getAttribute(name)
+      for (let k = 0; k < attribute.itemSize; k++)
+        hash += `${~~(getComponent(attribute, index, k) * shiftMultiplier)},`
+    })
+
+    const existing = hashToIndex.get(hash)
+    if (existing !== undefined) {
+      newIndices.push(existing)
+      continue
+    }
+    attributeNames.forEach((name) => {
+      const attribute = geometry.getAttribute(name)
+      const morphAttributes = geometry.morphAttributes[name]
+      for (let k = 0; k < attribute.itemSize; k++) {
+        attributeArrays.get(name)!.push(getComponent(attribute, index, k))
+        morphAttributes?.forEach((morphAttribute, m) =>
+          morphAttributeArrays.get(name)![m].push(getComponent(morphAttribute, index, k)))
+      }
+    })
+    hashToIndex.set(hash, hashToIndex.size)
+    newIndices.push(hashToIndex.size - 1)
+  }
+
+  const result = geometry.clone()
+  attributeNames.forEach((name) => {
+    const attribute = geometry.getAttribute(name)
+    result.setAttribute(name, createAttribute(attribute, attributeArrays.get(name)!))
+    morphAttributeArrays.get(name)?.forEach((values, m) => {
+      result.morphAttributes[name][m] = createAttribute(geometry.morphAttributes[name][m], values)
+    })
+  })
+  result.setIndex(newIndices)
+
+  return result
 }
 
 /**
- * @param {BufferGeometry} geometry
- * @param {number} drawMode
- * @return {BufferGeometry>}
+ * Merges the groups of `geometry` that share a material index, e.g. the faces of a custom die
+ * that look the same, so a mesh draws once per material rather than once per group. Triangles
+ * are reordered by material; anything outside the groups is dropped, as it isn't drawn either.
  */
-function toTrianglesDrawMode( geometry, drawMode ) {
-
-	if ( drawMode === TrianglesDrawMode ) {
-
-		console.warn( 'THREE.BufferGeometryUtils.toTrianglesDrawMode(): Geometry already defined as triangles.' );
-		return geometry;
-
-	}
-
-	if ( drawMode === TriangleFanDrawMode || drawMode === TriangleStripDrawMode ) {
-
-		let index = geometry.getIndex();
-
-		// generate index if not present
-
-		if ( index === null ) {
-
-			const indices = [];
-
-			const position = geometry.getAttribute( 'position' );
-
-			if ( position !== undefined ) {
-
-				for ( let i = 0; i < position.count; i ++ ) {
-
-					indices.push( i );
-
-				}
-
-				geometry.setIndex( indices );
-				index = geometry.getIndex();
-
-			} else {
-
-				console.error( 'THREE.BufferGeometryUtils.toTrianglesDrawMode(): Undefined position attribute. Processing not possible.' );
-				return geometry;
-
-			}
-
-		}
-
-		//
-
-		const numberOfTriangles = index.count - 2;
-		const newIndices = [];
-
-		if ( drawMode === TriangleFanDrawMode ) {
-
-			// gl.TRIANGLE_FAN
-
-			for ( let i = 1; i <= numberOfTriangles; i ++ ) {
-
-				newIndices.push( index.getX( 0 ) );
-				newIndices.push( index.getX( i ) );
-				newIndices.push( index.getX( i + 1 ) );
-
-			}
-
-		} else {
-
-			// gl.TRIANGLE_STRIP
-
-			for ( let i = 0; i < numberOfTriangles; i ++ ) {
-
-				if ( i % 2 === 0 ) {
-
-					newIndices.push( index.getX( i ) );
-					newIndices.push( index.getX( i + 1 ) );
-					newIndices.push( index.getX( i + 2 ) );
-
-				} else {
-
-					newIndices.push( index.getX( i + 2 ) );
-					newIndices.push( index.getX( i + 1 ) );
-					newIndices.push( index.getX( i ) );
-
-				}
-
-			}
-
-		}
-
-		if ( ( newIndices.length / 3 ) !== numberOfTriangles ) {
-
-			console.error( 'THREE.BufferGeometryUtils.toTrianglesDrawMode(): Unable to generate correct amount of triangles.' );
-
-		}
-
-		// build final geometry
-
-		const newGeometry = geometry.clone();
-		newGeometry.setIndex( newIndices );
-		newGeometry.clearGroups();
-
-		return newGeometry;
-
-	} else {
-
-		console.error( 'THREE.BufferGeometryUtils.toTrianglesDrawMode(): Unknown draw mode:', drawMode );
-		return geometry;
+export function mergeGroups(geometry: THREE.BufferGeometry) {
+  const materialIndices = [...new Set(geometry.groups.map(({ materialIndex = 0 }) => materialIndex))].sort((a, b) => a - b)
+  // Positions in the index, or vertices if there is none, in the order they are drawn in now
+  const order: number[] = []
+  const groups = materialIndices.map((materialIndex) => {
+    const start = order.length
+    geometry.groups.forEach((group) => {
+      if ((group.materialIndex ?? 0) === materialIndex) {
+        for (let i = group.start; i < group.start + group.count; i++)
+          order.push(i)
+      }
+    })
+    return { start, count: order.length - start, materialIndex }
+  })
+
+  const result = geometry.clone()
+  result.clearGroups()
+  groups.forEach(({ start, count, materialIndex }) => result.addGroup(start, count, materialIndex))
+  if (geometry.index) {
+    const index = geometry.index
+    result.setIndex(order.map(i => index.getX(i)))
+    return result
+  }
+
+  const reorder = (attribute: Attribute) =>
+    createAttribute(attribute, order.flatMap(i => Array.from({ length: attribute.itemSize }, (_, k) => getComponent(attribute, i, k))))
+  Object.entries(geometry.attributes).forEach(([name, attribute]) => result.setAttribute(name, reorder(attribute)))
+  Object.entries(geometry.morphAttributes).forEach(([name, attributes]) => {
+    result.morphAttributes[name] = attributes.map(reorder)
+  })
+
+  return result
+}
 
-	}
+/** The attributes, which must share their array type, in one `InterleavedBuffer` */
+export function interleaveAttributes(attributes: THREE.BufferAttribute[]) {
+  const TypedArray = getArrayConstructor(attributes[0])
+  if (attributes.some(attribute => getArrayConstructor(attribute) !== TypedArray))
+    throw new BufferGeometryUtilsError('Attributes with different array types cannot be interleaved')
+
+  const arrayLength = attributes.reduce((length, { array }) => length + array.length, 0)
+  const stride = attributes.reduce((sum, { itemSize }) => sum + itemSize, 0)
+  const interleavedBuffer = new THREE.InterleavedBuffer(new TypedArray(arrayLength), stride)
+
+  let offset = 0
+  return attributes.map((attribute) => {
+    const interleaved = new THREE.InterleavedBufferAttribute(interleavedBuffer, attribute.itemSize, offset, attribute.normalized)
+    offset += attribute.itemSize
+    for (let i = 0; i < attribute.count; i++) {
+      for (let k = 0; k < attribute.itemSize; k++)
+        setComponent(interleaved, i, k, getComponent(attribute, i, k))
+    }
+    return interleaved
+  })
+}
 
+/** Bytes taken by the attributes and index of `geometry` */
+export function estimateBytesUsed(geometry: THREE.BufferGeometry) {
+  const getBytes = (attribute: Attribute) => attribute.count * attribute.itemSize * getArray(attribute).BYTES_PER_ELEMENT
+  const index = geometry.getIndex()
+  return Object.values(geometry.attributes).reduce((bytes, attribute) => bytes + getBytes(attribute), index ? getBytes(index) : 0)
 }
 
 /**
- * Calculates the morphed attributes of a morphed/skinned BufferGeometry.
- * Helpful for Raytracing or Decals.
- * @param {Mesh | Line | Points} object An instance of Mesh, Line or Points.
- * @return {Object} An Object with original position/normal attributes and morphed ones.
+ * Positions and normals of `object` as drawn, with its morph targets and skinning applied, next
+ * to the attributes they were computed from.
  */
-function computeMorphedAttributes( object ) {
-
-	if ( object.geometry.isBufferGeometry !== true ) {
-
-		console.error( 'THREE.BufferGeometryUtils: Geometry is not of type BufferGeometry.' );
-		return null;
-
-	}
-
-	const _vA = new Vector3();
-	const _vB = new Vector3();
-	const _vC = new Vector3();
-
-	const _tempA = new Vector3();
-	const _tempB = new Vector3();
-	const _tempC = new Vector3();
-
-	const _morphA = new Vector3();
-	const _morphB = new Vector3();
-	const _morphC = new Vector3();
-
-	function _calculateMorphedAttributeData(
-		object,
-		material,
-		attribute,
-		morphAttribute,
-		morphTargetsRelative,
-		a,
-		b,
-		c,
-		modifiedAttributeArray
-	) {
-
-		_vA.fromBufferAttribute( attribute, a );
-		_vB.fromBufferAttribute( attribute, b );
-		_vC.fromBufferAttribute( attribute, c );
-
-		const morphInfluences = object.morphTargetInfluences;
-
-		if ( material.morphTargets && morphAttribute && morphInfluences ) {
-
-			_morphA.set( 0, 0, 0 );
-			_morphB.set( 0, 0, 0 );
-			_morphC.set( 0, 0, 0 );
-
-			for ( let i = 0, il = morphAttribute.length; i < il; i ++ ) {
-
-				const influence = morphInfluences[ i ];
-				const morph = morphAttribute[ i ];
-
-				if ( influence === 0 ) continue;
-
-				_tempA.fromBufferAttribute( morph, a );
-				_tempB.fromBufferAttribute( morph, b );
-				_tempC.fromBufferAttribute( morph, c );
-
-				if ( morphTargetsRelative ) {
-
-					_morphA.addScaledVector( _tempA, influence );
-					_morphB.addScaledVector( _tempB, influence );
-					_morphC.addScaledVector( _tempC, influence );
-
-				} else {
-
-					_morphA.addScaledVector( _tempA.sub( _vA ), influence );
-					_morphB.addScaledVector( _tempB.sub( _vB ), influence );
-					_morphC.addScaledVector( _tempC.sub( _vC ), influence );
-
-				}
-
-			}
-
-			_vA.add( _morphA );
-			_vB.add( _morphB );
-			_vC.add( _morphC );
-
-		}
-
-		if ( object.isSkinnedMesh ) {
-
-			object.boneTransform( a, _vA );
-			object.boneTransform( b, _vB );
-			object.boneTransform( c, _vC );
-
-		}
-
-		modifiedAttributeArray[ a * 3 + 0 ] = _vA.x;
-		modifiedAttributeArray[ a * 3 + 1 ] = _vA.y;
-		modifiedAttributeArray[ a * 3 + 2 ] = _vA.z;
-		modifiedAttributeArray[ b * 3 + 0 ] = _vB.x;
-		modifiedAttributeArray[ b * 3 + 1 ] = _vB.y;
-		modifiedAttributeArray[ b * 3 + 2 ] = _vB.z;
-		modifiedAttributeArray[ c * 3 + 0 ] = _vC.x;
-		modifiedAttributeArray[ c * 3 + 1 ] = _vC.y;
-		modifiedAttributeArray[ c * 3 + 2 ] = _vC.z;
-
-	}
-
-	const geometry = object.geometry;
-	const material = object.material;
-
-	let a, b, c;
-	const index = geometry.index;
-	const positionAttribute = geometry.attributes.position;
-	const morphPosition = geometry.morphAttributes.position;
-	const morphTargetsRelative = geometry.morphTargetsRelative;
-	const normalAttribute = geometry.attributes.normal;
-	const morphNormal = geometry.morphAttributes.position;
-
-	const groups = geometry.groups;
-	const drawRange = geometry.drawRange;
-	let i, j, il, jl;
-	let group, groupMaterial;
-	let start, end;
-
-	const modifiedPosition = new Float32Array( positionAttribute.count * positionAttribute.itemSize );
-	const modifiedNormal = new Float32Array( normalAttribute.count * normalAttribute.itemSize );
-
-	if ( index !== null ) {
-
-		// indexed buffer geometry
-
-		if ( Array.isArray( material ) ) {
-
-			for ( i = 0, il = groups.length; i < il; i ++ ) {
-
-				group = groups[ i ];
-				groupMaterial = material[ group.materialIndex ];
-
-				start = Math.max( group.start, drawRange.start );
-				end = Math.min( ( group.start + group.count ), ( drawRange.start + drawRange.count ) );
-
-				for ( j = start, jl = end; j < jl; j += 3 ) {
-
-					a = index.getX( j );
-					b = index.getX( j + 1 );
-					c = index.getX( j + 2 );
-
-					_calculateMorphedAttributeData(
-						object,
-						groupMaterial,
-						positionAttribute,
-						morphPosition,
-						morphTargetsRelative,
-						a, b, c,
-						modifiedPosition
-					);
-
-					_calculateMorphedAttributeData(
-						object,
-						groupMaterial,
-						normalAttribute,
-						morphNormal,
-						morphTargetsRelative,
-						a, b, c,
-						modifiedNormal
-					);
-
-				}
-
-			}
-
-		} else {
-
-			start = Math.max( 0, drawRange.start );
-			end = Math.min( index.count, ( drawRange.start + drawRange.count ) );
-
-			for ( i = start, il = end; i < il; i += 3 ) {
-
-				a = index.getX( i );
-				b = index.getX( i + 1 );
-				c = index.getX( i + 2 );
-
-				_calculateMorphedAttributeData(
-					object,
-					material,
-					positionAttribute,
-					morphPosition,
-					morphTargetsRelative,
-					a, b, c,
-					modifiedPosition
-				);
-
-				_calculateMorphedAttributeData(
-					object,
-					material,
-					normalAttribute,
-					morphNormal,
-					morphTargetsRelative,
-					a, b, c,
-					modifiedNormal
-				);
-
-			}
-
-		}
-
-	} else {
-
-		// non-indexed buffer geometry
-
-		if ( Array.isArray( material ) ) {
-
-			for ( i = 0, il = groups.length; i < il; i ++ ) {
-
-				group = groups[ i ];
-				groupMaterial = material[ group.materialIndex ];
-
-				start = Math.max( group.start, drawRange.start );
-				end = Math.min( ( group.start + group.count ), ( drawRange.start + drawRange.count ) );
-
-				for ( j = start, jl = end; j < jl; j += 3 ) {
-
-					a = j;
-					b = j + 1;
-					c = j + 2;
-
-					_calculateMorphedAttributeData(
-						object,
-						groupMaterial,
-						positionAttribute,
-						morphPosition,
-						morphTargetsRelative,
-						a, b, c,
-						modifiedPosition
-					);
-
-					_calculateMorphedAttributeData(
-						object,
-						groupMaterial,
-						normalAttribute,
-						morphNormal,
-						morphTargetsRelative,
-						a, b, c,
-						modifiedNormal
-					);
-
-				}
-
-			}
-
-		} else {
-
-			start = Math.max( 0, drawRange.start );
-			end = Math.min( positionAttribute.count, ( drawRange.start + drawRange.count ) );
-
-			for ( i = start, il = end; i < il; i += 3 ) {
-
-				a = i;
-				b = i + 1;
-				c = i + 2;
-
-				_calculateMorphedAttributeData(
-					object,
-					material,
-					positionAttribute,
-					morphPosition,
-					morphTargetsRelative,
-					a, b, c,
-					modifiedPosition
-				);
-
-				_calculateMorphedAttributeData(
-					object,
-					material,
-					normalAttribute,
-					morphNormal,
-					morphTargetsRelative,
-					a, b, c,
-					modifiedNormal
-				);
-
-			}
-
-		}
-
-	}
-
-	const morphedPositionAttribute = new Float32BufferAttribute( modifiedPosition, 3 );
-	const morphedNormalAttribute = new Float32BufferAttribute( modifiedNormal, 3 );
+export function computeMorphedAttributes(object: THREE.Mesh | THREE.Line | THREE.Points): MorphedAttributes {
+  const { geometry, material } = object
+  const { index, groups, drawRange, morphTargetsRelative } = geometry
+  const positionAttribute = geometry.attributes.position
+  const normalAttribute = geometry.attributes.normal as Attribute | undefined
+  if (!positionAttribute)
+    throw new BufferGeometryUtilsError('The geometry has no position attribute')
+
+  const morphedPositions = new Float32Array(positionAttribute.count * positionAttribute.itemSize)
+  const morphedNormals = normalAttribute && new Float32Array(normalAttribute.count * normalAttribute.itemSize)
+
+  const vertex = new THREE.Vector3()
+  const morphed = new THREE.Vector3()
+  const morph = new THREE.Vector3()
+  const apply = (attribute: Attribute, morphAttributes: Attribute[] | undefined, i: number, target: Float32Array) => {
+    morphed.fromBufferAttribute(attribute, i)
+    vertex.copy(morphed)
+    morphAttributes?.forEach((morphAttribute, m) => {
+      const influence = object.morphTargetInfluences?.[m] ?? 0
+      if (influence === 0)
+        return
+      morph.fromBufferAttribute(morphAttribute, i)
+      morphed.addScaledVector(morphTargetsRelative ? morph : morph.sub(vertex), influence)
+    })
+    if (object instanceof THREE.SkinnedMesh)
+      object.boneTransform(i, morphed)
+    morphed.toArray(target, i * 3)
+  }
+
+  // Only the triangles that are drawn, i.e. those in a group if there is a material per group
+  const end = index ? index.count : positionAttribute.count
+  const ranges = Array.isArray(material)
+    ? groups.map(({ start, count }) => [Math.max(start, drawRange.start), Math.min(start + count, drawRange.start + drawRange.count)])
+    : [[Math.max(0, drawRange.start), Math.min(end, drawRange.start + drawRange.count)]]
+  ranges.forEach(([start, end]) => {
+    for (let i = start; i < end; i++) {
+      const vertexIndex = index ? index.getX(i) : i
+      apply(positionAttribute, geometry.morphAttributes.position, vertexIndex, morphedPositions)
+      if (normalAttribute)
+        apply(normalAttribute, geometry.morphAttributes.normal, vertexIndex, morphedNormals!)
+    }
+  })
+
+  return {
+    positionAttribute,
+    normalAttribute,
+    morphedPositionAttribute: new THREE.Float32BufferAttribute(morphedPositions, 3),
+    morphedNormalAttribute: morphedNormals && new THREE.Float32BufferAttribute(morphedNormals, 3),
+  }
+}
 
-	return {
+/** Concatenates attributes of the same array type, item size and normalization */
+function mergeBufferAttributes(attributes: Attribute[]) {
+  const [first] = attributes
+  attributes.forEach((attribute) => {
+    if (attribute instanceof THREE.InterleavedBufferAttribute)
+      throw new BufferGeometryUtilsError('Interleaved attributes cannot be merged')
+    if (getArrayConstructor(attribute) !== getArrayConstructor(first))
+      throw new BufferGeometryUtilsError('Attributes with different array types cannot be merged')
+    if (attribute.itemSize !== first.itemSize || attribute.normalized !== first.normalized)
+      throw new BufferGeometryUtilsError('Attributes with different item sizes or normalization cannot be merged')
+  })
+
+  const TypedArray = getArrayConstructor(first)
+  const array = new TypedArray(attributes.reduce((length, attribute) => length + attribute.array.length, 0))
+  let offset = 0
+  attributes.forEach((attribute) => {
+    array.set(getArray(attribute), offset)
+    offset += attribute.array.length
+  })
+
+  return new THREE.BufferAttribute(array, first.itemSize, first.normalized)
+}
 
-		positionAttribute: positionAttribute,
-		normalAttribute: normalAttribute,
-		morphedPositionAttribute: morphedPositionAttribute,
-		morphedNormalAttribute: morphedNormalAttribute
+function haveSameKeys(record: Record<string, unknown>, keys: string[]) {
+  const recordKeys = Object.keys(record)
+  return recordKeys.length === keys.length && recordKeys.every(key => keys.includes(key))
+}
 
-	};
+/** A new attribute like `attribute`, with `values` in an array of the same type */
+function createAttribute(attribute: Attribute, values: number[]) {
+  return new THREE.BufferAttribute(new (getArrayConstructor(attribute))(values), attribute.itemSize, attribute.normalized)
+}
 
+function getArray(attribute: Attribute) {
+  return attribute.array as TypedArray
 }
 
+function getArrayConstructor(attribute: Attribute) {
+  return getArray(attribute).constructor as TypedArrayConstructor
+}
 
+function getComponent(attribute: Attribute, index: number, component: number) {
+  switch (component) {
+    case 0: return attribute.getX(index)
+    case 1: return attribute.getY(index)
+    case 2: return attribute.getZ(index)
+    default: return attribute.getW(index)
+  }
+}
 
-export {
-	computeTangents,
-	mergeBufferGeometries,
-	mergeBufferAttributes,
-	interleaveAttributes,
-	estimateBytesUsed,
-	mergeVertices,
-	toTrianglesDrawMode,
-	computeMorphedAttributes,
-};
+function setComponent(attribute: Attribute, index: number, component: number, value: number) {
+  switch (component) {
+    case 0: return attribute.setX(index, value)
+    case 1: return attribute.setY(index, value)
+    case 2: return attribute.setZ(index, value)
+    default: return attribute.setW(index, value)
+  }
+}
@@ -0,0 +1,204 @@
+import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls'
+
+/**
+ * The camera and how it moves. `fixed` looks straight down on the table, `orbit` lets the user
+ * rotate, zoom and pan, and `cinematic` follows the dice during a throw and frames them once
+ * they settle. The renderer only draws on demand, so the controller calls `render` itself
+ * whenever it moved the camera.
+ */
+
+export type CameraType = 'perspective' | 'orthographic'
+export type CameraMode = 'fixed' | 'orbit' | 'cinematic'
+
+export const CAMERA_TYPES: CameraType[] = ['perspective', 'orthographic']
+export const CAMERA_MODES: CameraMode[] = ['fixed', 'orbit', 'cinematic']
+
+export interface CameraSettings {
+  type: CameraType
+  mode: CameraMode
+  fixed: {
+    /** Above the table */
+    height: number
+  }
+  orbit: {
+    rotateSpeed: number
+    zoomSpeed: number
+    panSpeed: number
+  }
+  cinematic: {
+    /** Degrees above the table the dice are watched from */
+    elevation: number
+    /** Share of the way to the dice the camera moves per frame */
+    smoothing: number
+    /** Room around the settled dice, as a multiple of their spread */
+    padding: number
+  }
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  type: 'perspective',
+  mode: 'fixed',
+  fixed: { height: 14 },
+  orbit: { rotateSpeed: 1, zoomSpeed: 1, panSpeed: 1 },
+  cinematic: { elevation: 55, smoothing: 0.08, padding: 2.5 },
+}
+
+export interface CameraControllerOptions {
+  /** Read live, so changes from the pane only need `applySettings` */
+  settings: CameraSettings
+  /** Point the fixed camera looks at, the middle of the table */
+  target: THREE.Vector3
+  /** Half the size of the area the fixed camera shows */
+  getViewSize: () => number
+  render: () => void
+}
+
+export interface CameraController {
+  camera: () => THREE.Camera
+  /** Takes over changed settings, e.g. a new camera type or mode */
+  applySettings: () => void
+  /** Call when the canvas was resized */
+  resize: () => void
+  /** Stops listening for orbit gestures and framing the dice */
+  dispose: () => void
+  /** Follows `points` in cinematic mode, call on every frame of a throw */
+  track: (points: THREE.Vector3[], settled: boolean) => void
+}
+
+const FOV = 60
+// Never closer to the dice than this, however close together they are
+const MIN_FRAMING_RADIUS = 1.5
+// Framing animation stops once the camera is this close to where it is going
+const FRAMING_EPSILON = 0.01
+
+export function createCameraController(canvas: HTMLCanvasElement, options: CameraControllerOptions): CameraController {
+  const { settings } = options
+  // A canvas that is not laid out yet has no size
+  const aspect = () => canvas.clientWidth / canvas.clientHeight || 1
+  const createCamera = (type: CameraType) => type === 'perspective'
+    ? new THREE.PerspectiveCamera(FOV, aspect(), 0.1, 300)
+    : new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 300)
+
+  let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera = createCamera(settings.type)
+  let controls: OrbitControls | undefined
+  const lookAt = options.target.clone()
+  let framing: number | undefined
+
+  const resize = () => {
+    if (camera instanceof THREE.OrthographicCamera) {
+      const size = options.getViewSize()
+      camera.left = -size * aspect()
+      camera.right = size * aspect()
+      camera.top = size
+      camera.bottom = -size
+    }
+    else {
+      camera.aspect = aspect()
+    }
+    camera.updateProjectionMatrix()
+  }
+
+  const stopFraming = () => {
+    if (framing !== undefined)
+      cancelAnimationFrame(framing)
+    framing = undefined
+  }
+
+  /** Moves a step towards looking at `center` from far enough away to see `radius` around it */
+  const moveTowards = (center: THREE.Vector3, radius: number, amount: number) => {
+    const elevation = THREE.MathUtils.degToRad(settings.cinematic.elevation)
+    const distance = radius / Math.sin(THREE.MathUtils.degToRad(FOV) / 2)
+    // Keep looking from the side the camera is on
+    const horizontal = camera.position.clone().sub(lookAt).setY(0)
+    if (horizontal.lengthSq() < 1e-6)
+      horizontal.set(0, 0, 1)
+    horizontal.normalize().multiplyScalar(Math.cos(elevation))
+    const position = center.clone().addScaledVector(horizontal.setY(Math.sin(elevation)), distance)
+
+    lookAt.lerp(center, amount)
+    camera.position.lerp(position, amount)
+    camera.lookAt(lookAt)
+    if (camera instanceof THREE.OrthographicCamera) {
+      camera.zoom += (options.getViewSize() / radius - camera.zoom) * amount
+      camera.updateProjectionMatrix()
+    }
+    return camera.position.distanceTo(position) + lookAt.distanceTo(center)
+  }
+
+  const frame = (center: THREE.Vector3, radius: number) => {
+    stopFraming()
+    const step = () => {
+      const remaining = moveTowards(center, radius, settings.cinematic.smoothing)
+      options.render()
+      framing = remaining > FRAMING_EPSILON ? requestAnimationFrame(step) : undefined
+    }
+    step()
+  }
+
+  const configure = () => {
+    stopFraming()
+    const previous = camera
+    if (settings.type === 'perspective' ? !(camera instanceof THREE.PerspectiveCamera) : !(camera instanceof THREE.OrthographicCamera)) {
+      camera = createCamera(settings.type)
+      camera.position.copy(previous.position)
+      camera.quaternion.copy(previous.quaternion)
+    }
+    resize()
+
+    controls?.dispose()
+    controls = undefined
+    if (settings.mode === 'orbit') {
+      controls = new OrbitControls(camera, canvas)
+      controls.target.copy(lookAt)
+      controls.rotateSpeed = settings.orbit.rotateSpeed
+      controls.zoomSpeed = settings.orbit.zoomSpeed
+      controls.panSpeed = settings.orbit.panSpeed
+      controls.addEventListener('change', () => {
+        lookAt.copy(controls!.target)
+        options.render()
+      })
+      controls.update()
+    }
+    else if (settings.mode === 'fixed') {
+      lookAt.copy(options.target)
+      camera.position.set(options.target.x, settings.fixed.height, options.target.z)
+      camera.zoom = 1
+      camera.lookAt(lookAt)
+      camera.updateProjectionMatrix()
+    }
+  }
+
+  const track = (points: THREE.Vector3[], settled: boolean) => {
+    if (settings.mode !== 'cinematic' || points.length === 0)
+      return
+    const box = new THREE.Box3().setFromPoints(points)
+    const center = box.getCenter(new THREE.Vector3())
+    const spread = box.getBoundingSphere(new THREE.Sphere()).radius
+    const radius = Math.max(MIN_FRAMING_RADIUS, spread * settings.cinematic.padding)
+    if (settled) {
+      frame(center, radius)
+    }
+    else {
+      stopFraming()
+      moveTowards(center, radius, settings.cinematic.smoothing)
+    }
+  }
+
+  configure()
+
+  return {
+    camera: () => camera,
+    applySettings: () => {
+      configure()
+      options.render()
+    },
+    resize,
+    track,
+    dispose: () => {
+      stopFraming()
+      controls?.dispose()
+      controls = undefined
+    },
+  }
+}
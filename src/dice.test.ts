@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { CustomDie } from './dice'
+import { CustomDieError, DIE_TYPES, defineCustomDie, getDieDefinition, getFaceLabel, isDieType } from './dice'
+
+const star: CustomDie = {
+  shape: 'd8',
+  faces: Array.from({ length: 8 }, (_, i) => i < 2
+    ? { value: 1, label: '★', texture: { type: 'svg', source: '<svg xmlns="http://www.w3.org/2000/svg"/>' } }
+    : { value: 0, label: '·' }),
+  scored: true,
+}
+
+describe('defineCustomDie', () => {
+  it('makes a die that can be thrown', () => {
+    defineCustomDie('star', star)
+    expect(isDieType('star')).toBe(true)
+    expect(DIE_TYPES).toContain('star')
+
+    const definition = getDieDefinition('star')
+    expect(definition.shape).toBe('d8')
+    expect(definition.sides).toBe(8)
+    expect(definition.faces.filter(face => face.value === 1)).toHaveLength(2)
+    expect(getFaceLabel(definition, 1)).toBe('★')
+  })
+
+  it('copies the spec', () => {
+    const faces = Array.from({ length: 6 }, (_, i) => ({ value: i }))
+    defineCustomDie('copied', { shape: 'd6', faces, scored: true })
+    faces[0].value = 99
+    expect(getDieDefinition('copied').faces.map(face => face.value)).not.toContain(99)
+  })
+
+  it('refuses invalid dice', () => {
+    const invalid: [string, CustomDie][] = [
+      ['d6', star],
+      ['coin', star],
+      ['d7', star],
+      ['two words', star],
+      ['tetra', { ...star, shape: 'd4' as CustomDie['shape'] }],
+      ['short', { ...star, faces: star.faces.slice(1) }],
+      ['valueless', { ...star, faces: star.faces.map((face, i) => i === 3 ? { ...face, value: Number.NaN } : face) }],
+      ['relabeled', { ...star, faces: star.faces.map((face, i) => i === 7 ? { ...face, label: 'x' } : face) }],
+      ['unpainted', { ...star, faces: star.faces.map((face, i) => i === 0 ? { ...face, texture: { type: 'paint' as 'svg', source: '' } } : face) }],
+    ]
+    invalid.forEach(([name, die]) => expect(() => defineCustomDie(name, die)).toThrow(CustomDieError))
+    expect(isDieType('short')).toBe(false)
+  })
+
+  it('refuses dice that were not defined', () => {
+    expect(() => getDieDefinition('undefined')).toThrow(CustomDieError)
+  })
+})
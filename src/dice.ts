@@ -0,0 +1,447 @@
+import * as CANNON from 'cannon-es'
+
+/** Dice numbered 1 to their number of sides, with the shapes all dice are built from */
+export type StandardDieType = 'd4' | 'd6' | 'd8' | 'd10' | 'd12' | 'd20'
+
+/**
+ * Dice with their own faces on a standard shape: the ones in `CUSTOM_DICE` and any added
+ * with `defineCustomDie`
+ */
+export type CustomDieType = 'dF' | 'coin' | 'story' | (string & Record<never, never>)
+
+export type DieType = StandardDieType | CustomDieType
+
+export const STANDARD_DIE_TYPES: StandardDieType[] = ['d4', 'd6', 'd8', 'd10', 'd12', 'd20']
+
+/** Every die that can be thrown, grows with `defineCustomDie` */
+export const DIE_TYPES: DieType[] = [...STANDARD_DIE_TYPES, 'dF', 'coin', 'story']
+
+export type Vec3Tuple = [number, number, number]
+
+/** Anything quaternion-shaped, so both THREE and CANNON quaternions can be passed in */
+export interface QuaternionLike {
+  x: number
+  y: number
+  z: number
+  w: number
+}
+
+/** What is drawn on a face: plain text, an emoji, SVG markup or the URL of an image */
+export interface FaceTexture {
+  type: 'text' | 'emoji' | 'svg' | 'image'
+  source: string
+}
+
+export interface DieFaceSpec {
+  /** What the face counts as in a roll result, faces may share a value */
+  value: number
+  /** Shown for the face in results instead of its value, the same on all faces with that value */
+  label?: string
+  /** Drawn on the face, the label (or value) as text by default */
+  texture?: FaceTexture
+}
+
+export interface DieFace extends DieFaceSpec {
+  /** Outward unit normal in the die's local frame */
+  normal: Vec3Tuple
+  /** Indices into `DieDefinition.vertices`, counter-clockwise seen from outside */
+  vertices: number[]
+}
+
+export interface DieDefinition {
+  type: DieType
+  /** The standard die whose solid this one is */
+  shape: StandardDieType
+  sides: number
+  vertices: Vec3Tuple[]
+  faces: DieFace[]
+  /** The result is read from the face resting on the table (d4) instead of the one facing up */
+  readDown: boolean
+  /** Whether the values of several of these dice add up to a total */
+  scored: boolean
+}
+
+export interface CustomDie {
+  /** A d4 is read from the bottom, so its faces can't carry a single picture each */
+  shape: Exclude<StandardDieType, 'd4'>
+  /** In the order of the values of the standard die, so `faces[0]` replaces its 1 */
+  faces: DieFaceSpec[]
+  scored: boolean
+}
+
+const text = (source: string): FaceTexture => ({ type: 'text', source })
+const emoji = (source: string): FaceTexture => ({ type: 'emoji', source })
+
+export class CustomDieError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomDieError'
+  }
+}
+
+export const CUSTOM_DICE: Record<CustomDieType, CustomDie> = {
+  // Fudge dice: opposite faces are plus and minus, or both blank
+  dF: {
+    shape: 'd6',
+    faces: [
+      { value: 1, label: '+' },
+      { value: 0, label: '0', texture: text('') },
+      { value: -1, label: '−' },
+      { value: 1, label: '+' },
+      { value: 0, label: '0', texture: text('') },
+      { value: -1, label: '−' },
+    ],
+    scored: true,
+  },
+  // Heads count 1, so the total of a handful of coins is the number of heads
+  coin: {
+    shape: 'd6',
+    faces: [
+      { value: 1, label: 'H' },
+      { value: 1, label: 'H' },
+      { value: 1, label: 'H' },
+      { value: 0, label: 'T' },
+      { value: 0, label: 'T' },
+      { value: 0, label: 'T' },
+    ],
+    scored: true,
+  },
+  story: {
+    shape: 'd6',
+    faces: ['🏰', '🐉', '🗝️', '🌙', '⛵', '🧙'].map((label, i) => ({ value: i + 1, label, texture: emoji(label) })),
+    scored: false,
+  },
+}
+
+const CUSTOM_DIE_SHAPES: CustomDie['shape'][] = ['d6', 'd8', 'd10', 'd12', 'd20']
+const FACE_TEXTURE_TYPES: FaceTexture['type'][] = ['text', 'emoji', 'svg', 'image']
+
+/**
+ * Adds a die with faces of its own, thrown like any other once defined, e.g. in
+ * `DiceRollerConfig.dice` or the `dice` attribute of `<dice-roller>`. `die` is validated and
+ * copied; a name can only be defined once.
+ */
+export function defineCustomDie(name: string, die: CustomDie) {
+  if (!/^[a-z]\w*$/i.test(name) || /^d\d+$/i.test(name))
+    throw new CustomDieError(`"${name}" is not a valid die name, numbered names like "d7" are kept for standard dice`)
+  if (isDieType(name))
+    throw new CustomDieError(`"${name}" is already a die`)
+  if (!CUSTOM_DIE_SHAPES.includes(die.shape))
+    throw new CustomDieError(`"${die.shape}" is not a shape custom dice can have`)
+  const { sides } = getDieDefinition(die.shape)
+  if (!Array.isArray(die.faces) || die.faces.length !== sides)
+    throw new CustomDieError(`A die shaped like a ${die.shape} needs ${sides} faces`)
+
+  const labels = new Map<number, string | undefined>()
+  die.faces.forEach(({ value, label, texture }, i) => {
+    if (!Number.isFinite(value))
+      throw new CustomDieError(`Face ${i + 1} has no value`)
+    if (label !== undefined && typeof label !== 'string')
+      throw new CustomDieError(`Face ${i + 1} has a label that is not text`)
+    if (labels.has(value) && labels.get(value) !== label)
+      throw new CustomDieError(`Faces with the value ${value} have different labels`)
+    labels.set(value, label)
+    if (texture !== undefined && (typeof texture !== 'object' || !FACE_TEXTURE_TYPES.includes(texture?.type) || typeof texture.source !== 'string'))
+      throw new CustomDieError(`Face ${i + 1} has an invalid texture`)
+  })
+  if (typeof die.scored !== 'boolean')
+    throw new CustomDieError('Whether the die is scored has to be given')
+
+  CUSTOM_DICE[name] = {
+    shape: die.shape,
+    faces: die.faces.map(({ value, label, texture }) => ({ value, label, texture: texture && { ...texture } })),
+    scored: die.scored,
+  }
+  DIE_TYPES.push(name)
+}
+
+/** Largest tilt in radians at which a die still counts as lying flat on a face */
+export const FACE_UP_TOLERANCE = 0.1
+
+const PHI = (1 + Math.sqrt(5)) / 2
+
+const definitions = new Map<DieType, DieDefinition>()
+
+export function isDieType(value: unknown): value is DieType {
+  return DIE_TYPES.includes(value as DieType)
+}
+
+export function isStandardDieType(value: unknown): value is StandardDieType {
+  return STANDARD_DIE_TYPES.includes(value as StandardDieType)
+}
+
+export function getDieDefinition(type: DieType): DieDefinition {
+  let definition = definitions.get(type)
+  if (!definition) {
+    definition = createDieDefinition(type)
+    definitions.set(type, definition)
+  }
+  return definition
+}
+
+function createDieDefinition(type: DieType): DieDefinition {
+  if (!isStandardDieType(type)) {
+    if (!isDieType(type))
+      throw new CustomDieError(`"${type}" is not a die, custom dice have to be defined first`)
+    const { shape, faces, scored } = CUSTOM_DICE[type]
+    const definition = getDieDefinition(shape)
+    return {
+      ...definition,
+      type,
+      faces: definition.faces.map(face => ({ ...face, ...faces[face.value - 1] })),
+      scored,
+    }
+  }
+
+  switch (type) {
+    case 'd4':
+      return buildDefinition(type, scaleTo(0.95, [[1, 1, 1], [-1, -1, 1], [-1, 1, -1], [1, -1, -1]]), true)
+    case 'd6':
+      return buildDefinition(type, [-0.5, 0.5].flatMap(x => [-0.5, 0.5].flatMap(y => [-0.5, 0.5].map(z => [x, y, z] as Vec3Tuple))))
+    case 'd8':
+      return buildDefinition(type, scaleTo(0.8, [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]))
+    case 'd10':
+      return buildDefinition(type, scaleTo(0.8, trapezohedronVertices(5)))
+    case 'd12':
+      return buildDefinition(type, scaleTo(0.8, [
+        ...[-1, 1].flatMap(x => [-1, 1].flatMap(y => [-1, 1].map(z => [x, y, z] as Vec3Tuple))),
+        ...[-1, 1].flatMap(a => [-1, 1].flatMap(b => [
+          [0, a / PHI, b * PHI],
+          [a / PHI, b * PHI, 0],
+          [a * PHI, 0, b / PHI],
+        ] as Vec3Tuple[])),
+      ]))
+    case 'd20':
+      return buildDefinition(type, scaleTo(0.8, [-1, 1].flatMap(a => [-1, 1].flatMap(b => [
+        [0, a, b * PHI],
+        [a, b * PHI, 0],
+        [a * PHI, 0, b],
+      ] as Vec3Tuple[]))))
+  }
+}
+
+/**
+ * Pentagonal trapezohedron (d10): two poles and a zig-zag ring of `2 * n` vertices.
+ * The ring height is chosen so that every kite-shaped face is planar.
+ */
+function trapezohedronVertices(n: number): Vec3Tuple[] {
+  const cos = Math.cos(Math.PI / n)
+  const ringHeight = (1 - cos) / (1 + cos)
+  const vertices: Vec3Tuple[] = [[0, 1, 0], [0, -1, 0]]
+  for (let i = 0; i < 2 * n; i++) {
+    const angle = i * Math.PI / n
+    vertices.push([Math.cos(angle), i % 2 === 0 ? ringHeight : -ringHeight, Math.sin(angle)])
+  }
+  return vertices
+}
+
+function scaleTo(radius: number, vertices: Vec3Tuple[]): Vec3Tuple[] {
+  const max = Math.max(...vertices.map(length))
+  return vertices.map(v => scale(v, radius / max))
+}
+
+function buildDefinition(type: StandardDieType, vertices: Vec3Tuple[], readDown = false): DieDefinition {
+  const faces = hullFaces(vertices)
+  const sides = faces.length
+
+  if (type === 'd6') {
+    // Matches the pip layout carved by `createBoxGeometry`
+    const d6Values: Record<string, number> = { '0,1,0': 1, '1,0,0': 2, '0,0,1': 3, '0,0,-1': 4, '-1,0,0': 5, '0,-1,0': 6 }
+    faces.forEach(face => face.value = d6Values[face.normal.map(Math.round).join(',')])
+  }
+  else {
+    // Opposite faces add up to `sides + 1`, like on real dice
+    let next = 1
+    for (const face of faces) {
+      if (face.value)
+        continue
+      face.value = next++
+      const opposite = faces.find(other => !other.value && dot(other.normal, face.normal) < -0.999)
+      if (opposite)
+        opposite.value = sides + 1 - face.value
+    }
+  }
+
+  return { type, shape: type, sides, vertices, faces, readDown, scored: true }
+}
+
+/**
+ * Brute-force convex hull of a small vertex set: every plane through three vertices with all
+ * other vertices behind it is a face. Good enough for the handful of vertices a die has.
+ */
+function hullFaces(vertices: Vec3Tuple[]): DieFace[] {
+  const eps = 1e-6
+  const faces: DieFace[] = []
+  const center = scale(vertices.reduce(add, [0, 0, 0]), 1 / vertices.length)
+
+  for (let a = 0; a < vertices.length; a++) {
+    for (let b = a + 1; b < vertices.length; b++) {
+      for (let c = b + 1; c < vertices.length; c++) {
+        let normal = cross(sub(vertices[b], vertices[a]), sub(vertices[c], vertices[a]))
+        if (length(normal) < eps)
+          continue
+        normal = scale(normal, 1 / length(normal))
+        if (dot(normal, sub(vertices[a], center)) < 0)
+          normal = scale(normal, -1)
+
+        const offset = dot(normal, vertices[a])
+        if (vertices.some(v => dot(normal, v) > offset + eps))
+          continue
+        if (faces.some(face => dot(face.normal, normal) > 1 - eps))
+          continue
+
+        const onPlane = vertices
+          .map((v, i) => [v, i] as const)
+          .filter(([v]) => Math.abs(dot(normal, v) - offset) < eps)
+        const faceCenter = scale(onPlane.map(([v]) => v).reduce(add, [0, 0, 0]), 1 / onPlane.length)
+        const u = normalize(sub(onPlane[0][0], faceCenter))
+        const w = cross(normal, u)
+        const angleOf = (v: Vec3Tuple) => Math.atan2(dot(sub(v, faceCenter), w), dot(sub(v, faceCenter), u))
+        const sorted = onPlane.sort(([v1], [v2]) => angleOf(v1) - angleOf(v2))
+
+        faces.push({ normal, vertices: sorted.map(([, i]) => i), value: 0 })
+      }
+    }
+  }
+
+  return faces
+}
+
+export function createDieShape(definition: DieDefinition): CANNON.Shape {
+  if (definition.shape === 'd6')
+    return new CANNON.Box(new CANNON.Vec3(0.5, 0.5, 0.5))
+
+  return new CANNON.ConvexPolyhedron({
+    vertices: definition.vertices.map(([x, y, z]) => new CANNON.Vec3(x, y, z)),
+    faces: definition.faces.map(face => face.vertices),
+  })
+}
+
+export function getFaceCenter(definition: DieDefinition, face: DieFace): Vec3Tuple {
+  return scale(face.vertices.map(i => definition.vertices[i]).reduce(add, [0, 0, 0]), 1 / face.vertices.length)
+}
+
+/** Returns the first face showing `value`, or undefined */
+export function findFaceByValue(definition: DieDefinition, value: number) {
+  return definition.faces.find(face => face.value === value)
+}
+
+/** The distinct values a die can roll, ascending */
+export function getFaceValues(definition: DieDefinition) {
+  return [...new Set(definition.faces.map(face => face.value))].sort((a, b) => a - b)
+}
+
+/** How a rolled value is shown, its face label if it has one */
+export function getFaceLabel(definition: DieDefinition, value: number) {
+  return findFaceByValue(definition, value)?.label ?? String(value)
+}
+
+/**
+ * Rotation, in the die's local frame, that maps the die onto itself and moves face `from` to
+ * where face `to` is. Because the solid does not change, a body rotated by it behaves the same
+ * physically; only the face labels end up permuted. Undefined if no such symmetry exists.
+ */
+export function getSymmetryRotation(definition: DieDefinition, from: DieFace, to: DieFace): QuaternionLike | undefined {
+  const frame = (face: DieFace, corner: number) => {
+    const u = normalize(sub(definition.vertices[face.vertices[corner]], getFaceCenter(definition, face)))
+    return [face.normal, u, cross(face.normal, u)]
+  }
+
+  const source = frame(from, 0)
+  for (let corner = 0; corner < to.vertices.length; corner++) {
+    const target = frame(to, corner)
+    // R = target * source^T
+    const matrix = [0, 1, 2].map(row => [0, 1, 2].map(col =>
+      target[0][row] * source[0][col] + target[1][row] * source[1][col] + target[2][row] * source[2][col]))
+    const apply = (v: Vec3Tuple): Vec3Tuple => [dot(matrix[0] as Vec3Tuple, v), dot(matrix[1] as Vec3Tuple, v), dot(matrix[2] as Vec3Tuple, v)]
+
+    const isSymmetry = definition.vertices.every(v =>
+      definition.vertices.some(other => length(sub(apply(v), other)) < 1e-6))
+    if (isSymmetry)
+      return matrixToQuaternion(matrix)
+  }
+}
+
+function matrixToQuaternion(m: number[][]): QuaternionLike {
+  const trace = m[0][0] + m[1][1] + m[2][2]
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1)
+    return { w: 0.25 / s, x: (m[2][1] - m[1][2]) * s, y: (m[0][2] - m[2][0]) * s, z: (m[1][0] - m[0][1]) * s }
+  }
+  if (m[0][0] > m[1][1] && m[0][0] > m[2][2]) {
+    const s = 2 * Math.sqrt(1 + m[0][0] - m[1][1] - m[2][2])
+    return { w: (m[2][1] - m[1][2]) / s, x: 0.25 * s, y: (m[0][1] + m[1][0]) / s, z: (m[0][2] + m[2][0]) / s }
+  }
+  if (m[1][1] > m[2][2]) {
+    const s = 2 * Math.sqrt(1 + m[1][1] - m[0][0] - m[2][2])
+    return { w: (m[0][2] - m[2][0]) / s, x: (m[0][1] + m[1][0]) / s, y: 0.25 * s, z: (m[1][2] + m[2][1]) / s }
+  }
+  const s = 2 * Math.sqrt(1 + m[2][2] - m[0][0] - m[1][1])
+  return { w: (m[1][0] - m[0][1]) / s, x: (m[0][2] + m[2][0]) / s, y: (m[1][2] + m[2][1]) / s, z: 0.25 * s }
+}
+
+export interface FaceReading {
+  /** Value of the face closest to pointing up (down for a d4) */
+  value: number
+  /** Angle in radians between that face's normal and straight up (down for a d4) */
+  tilt: number
+  /** 1 when lying flat on the face, falling to 0 when balanced exactly between two faces */
+  confidence: number
+}
+
+/** Reads the face closest to pointing up (or resting down for a d4), however tilted the die is */
+export function readFace(quaternion: QuaternionLike, definition: DieDefinition): FaceReading {
+  const direction = definition.readDown ? -1 : 1
+  const readings = definition.faces
+    .map(face => ({
+      value: face.value,
+      tilt: Math.acos(Math.max(-1, Math.min(1, direction * rotate(quaternion, face.normal)[1]))),
+    }))
+    .sort((a, b) => a.tilt - b.tilt)
+  const [nearest, next] = readings
+  return { ...nearest, confidence: (next.tilt - nearest.tilt) / (next.tilt + nearest.tilt) }
+}
+
+/**
+ * Returns the value of the face pointing up (or resting down for a d4),
+ * or 0 if the die is tilted more than `tolerance` from it (e.g. landed on an edge).
+ */
+export function getFaceUp(quaternion: QuaternionLike, definition: DieDefinition, tolerance = FACE_UP_TOLERANCE) {
+  const { value, tilt } = readFace(quaternion, definition)
+  return tilt <= tolerance ? value : 0
+}
+
+export function rotate(q: QuaternionLike, v: Vec3Tuple): Vec3Tuple {
+  // v + 2w(q × v) + 2q × (q × v)
+  const qv: Vec3Tuple = [q.x, q.y, q.z]
+  const t = scale(cross(qv, v), 2)
+  return add(add(v, scale(t, q.w)), cross(qv, t))
+}
+
+function add(a: Vec3Tuple, b: Vec3Tuple): Vec3Tuple {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+}
+
+function sub(a: Vec3Tuple, b: Vec3Tuple): Vec3Tuple {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+}
+
+function scale(a: Vec3Tuple, s: number): Vec3Tuple {
+  return [a[0] * s, a[1] * s, a[2] * s]
+}
+
+function dot(a: Vec3Tuple, b: Vec3Tuple) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+function cross(a: Vec3Tuple, b: Vec3Tuple): Vec3Tuple {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+}
+
+function length(a: Vec3Tuple) {
+  return Math.sqrt(dot(a, a))
+}
+
+function normalize(a: Vec3Tuple) {
+  return scale(a, 1 / length(a))
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { DieGeometryAssetHeader, DieGeometryKey } from './diceGeometry'
+import { DieGeometryError, getDieGeometry, isDieGeometry, loadDieGeometries, serializeDieGeometries } from './diceGeometry'
+
+const keys: DieGeometryKey[] = [
+  { shape: 'd20' },
+  { shape: 'box', edgeRadius: 0.1, segments: 4 },
+  { shape: 'pip-discs', notchRadius: 0.12 },
+]
+
+function withHeader(header: unknown, dataLength = 0) {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const buffer = new ArrayBuffer(10 + headerBytes.length + dataLength)
+  const view = new DataView(buffer)
+  'DGEO'.split('').forEach((char, i) => view.setUint8(i, char.charCodeAt(0)))
+  view.setUint16(4, 1, true)
+  view.setUint32(6, headerBytes.length, true)
+  new Uint8Array(buffer, 10).set(headerBytes)
+  return buffer
+}
+
+function readHeader(buffer: ArrayBuffer): DieGeometryAssetHeader {
+  const headerLength = new DataView(buffer).getUint32(6, true)
+  return JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 10, headerLength)))
+}
+
+describe('dice geometry assets', () => {
+  it('load the geometries they were made from', () => {
+    const built = keys.map(getDieGeometry)
+    const loadedKeys = loadDieGeometries(serializeDieGeometries(keys))
+    expect(loadedKeys).toEqual(keys)
+
+    keys.forEach((key, i) => {
+      const loaded = getDieGeometry(key)
+      expect(loaded).not.toBe(built[i])
+      expect(isDieGeometry(loaded)).toBe(true)
+      expect(isDieGeometry(built[i])).toBe(false)
+      expect(loaded.groups).toEqual(built[i].groups)
+      expect(Array.from(loaded.index?.array ?? [])).toEqual(Array.from(built[i].index?.array ?? []))
+      expect(Object.keys(loaded.attributes).sort()).toEqual(Object.keys(built[i].attributes).sort())
+      Object.entries(built[i].attributes).forEach(([name, attribute]) => {
+        const { array, itemSize } = loaded.attributes[name]
+        expect(itemSize).toBe(attribute.itemSize)
+        expect(array).toHaveLength(attribute.array.length)
+        // Quantized to 16 bits of the largest magnitude, which is at most about 1
+        Array.from(array).forEach((value, j) => expect(value).toBeCloseTo(attribute.array[j], 4))
+      })
+    })
+  })
+
+  it('store each geometry once, with only the parameters of its shape', () => {
+    const loadedKeys = loadDieGeometries(serializeDieGeometries([{ shape: 'd8', edgeRadius: 0.1 }, { shape: 'd8' }]))
+    expect(loadedKeys).toEqual([{ shape: 'd8' }])
+  })
+
+  it('are rejected when cut short, with another magic or version', () => {
+    const buffer = serializeDieGeometries(keys)
+    for (const length of [0, 9, buffer.byteLength - 1])
+      expect(() => loadDieGeometries(buffer.slice(0, length))).toThrow(DieGeometryError)
+
+    const wrongMagic = buffer.slice(0)
+    new DataView(wrongMagic).setUint8(0, 0)
+    expect(() => loadDieGeometries(wrongMagic)).toThrow('Not a dice geometry asset')
+    const wrongVersion = buffer.slice(0)
+    new DataView(wrongVersion).setUint16(4, 99, true)
+    expect(() => loadDieGeometries(wrongVersion)).toThrow('Unsupported dice geometry version')
+  })
+
+  it('are rejected with a header that does not fit or is not JSON', () => {
+    const buffer = serializeDieGeometries(keys)
+    const tooLong = buffer.slice(0)
+    new DataView(tooLong).setUint32(6, buffer.byteLength, true)
+    expect(() => loadDieGeometries(tooLong)).toThrow('does not fit')
+
+    const notJson = buffer.slice(0)
+    new DataView(notJson).setUint8(10, '}'.charCodeAt(0))
+    expect(() => loadDieGeometries(notJson)).toThrow('not valid JSON')
+  })
+
+  it('are rejected with a header missing fields or with invalid ones', () => {
+    const header = readHeader(serializeDieGeometries([{ shape: 'd8' }]))
+    const [geometry] = header.geometries
+    const invalid = [
+      null,
+      { version: 1 },
+      { ...header, geometries: [{ ...geometry, key: { shape: 'd7' } }] },
+      { ...header, geometries: [{ ...geometry, key: { shape: 'box', segments: 4 } }] },
+      { ...header, geometries: [{ ...geometry, count: -1 }] },
+      { ...header, geometries: [{ ...geometry, attributes: [{ name: 'position', itemSize: 3, scale: 0 }] }] },
+      { ...header, geometries: [{ ...geometry, attributes: [{ name: 'position', itemSize: 1.5, scale: 1 }] }] },
+      { ...header, geometries: [{ ...geometry, indexCount: '36' }] },
+      { ...header, geometries: [{ ...geometry, groups: [{ start: 0 }] }] },
+    ]
+    invalid.forEach(invalidHeader => expect(() => loadDieGeometries(withHeader(invalidHeader)))
+      .toThrow('missing fields or has invalid ones'))
+    expect(() => loadDieGeometries(withHeader({ ...header, geometries: [] }))).not.toThrow()
+  })
+
+  it('are rejected with indices past the vertices', () => {
+    const buffer = serializeDieGeometries([{ shape: 'box', edgeRadius: 0.1, segments: 4 }])
+    const header = readHeader(buffer)
+    const [{ count, attributes, indexCount }] = header.geometries
+    expect(indexCount).toBeDefined()
+    // The indices close the asset, after the attributes
+    const attributesLength = attributes.reduce((length, { itemSize }) => length + 2 * count * itemSize, 0)
+    const indexOffset = 10 + new DataView(buffer).getUint32(6, true) + attributesLength
+    expect(buffer.byteLength - indexOffset).toBe(2 * indexCount!)
+    new DataView(buffer).setUint16(indexOffset, count, true)
+    expect(() => loadDieGeometries(buffer)).toThrow('has an index past its')
+  })
+
+  it('need the parameters of each shape', () => {
+    expect(() => serializeDieGeometries([{ shape: 'box', segments: 4 }])).toThrow(DieGeometryError)
+  })
+})
@@ -0,0 +1,588 @@
+import * as THREE from 'three'
+import * as BufferGeometryUtils from './BufferGeometryUtils'
+import type { DieDefinition, DieFace, StandardDieType, Vec3Tuple } from './dice'
+import { getDieDefinition, getFaceCenter } from './dice'
+
+/**
+ * Geometry of the dice, built once per key and shared by every die, theme and die type that
+ * needs it; see `getDieGeometry`. The carved d6 takes a while to build, so the geometries can
+ * also be built ahead of time by `pnpm build:dice-assets` and loaded at startup instead.
+ *
+ * Asset layout (little endian):
+ * - magic `DGEO`, u16 format version, u32 header byte length
+ * - UTF-8 JSON `DieGeometryAssetHeader`
+ * - per geometry: each attribute as i16, scaled by 32767 over the largest magnitude in it,
+ *   then the index as u16, or u32 for more than 65536 vertices
+ */
+
+/**
+ * - `carved-box`: the rounded d6 with its pips carved in
+ * - `box`: the rounded d6 with flat faces, UVs per face for custom dice
+ * - `painted-box`: the same with UVs into the pip normal map
+ * - `box-inner`: the planes inside a carved d6 that show through the pips
+ * - `pip-discs`: the painted pips of a `painted-box`
+ * - the other standard dice, custom dice of the same shape share their geometry
+ */
+export type DieGeometryShape = 'carved-box' | 'box' | 'painted-box' | 'box-inner' | 'pip-discs' | Exclude<StandardDieType, 'd6'>
+
+export interface DieGeometryKey {
+  shape: DieGeometryShape
+  /** Rounding of the edges of the boxes */
+  edgeRadius?: number
+  /** Size of the pips of `carved-box` and `pip-discs` */
+  notchRadius?: number
+  /** Depth of the pips of `carved-box` */
+  notchDepth?: number
+  /** Subdivisions along an edge of the boxes */
+  segments?: number
+}
+
+export interface DieGeometryAssetHeader {
+  version: number
+  geometries: {
+    key: DieGeometryKey
+    /** Vertices of the geometry */
+    count: number
+    /** `scale` is the largest magnitude of the values, which are quantized relative to it */
+    attributes: { name: string, itemSize: number, scale: number }[]
+    /** Missing if the geometry is not indexed */
+    indexCount?: number
+    groups: { start: number, count: number, materialIndex?: number }[]
+  }[]
+}
+
+export const DIE_GEOMETRY_VERSION = 1
+
+const MAGIC = 'DGEO'
+const PREAMBLE_BYTES = 4 + 2 + 4
+const QUANTIZATION_SCALE = 32767
+// Geometries kept around, a few per edge radius
+const MAX_GEOMETRIES = 128
+// Distance of the pips off the center of a d6 face, along its axes
+const PIP_OFFSET = 0.23
+
+// Parameters each shape is built from, the others are left out of its key
+const SHAPE_PARAMS: Record<DieGeometryShape, (keyof Omit<DieGeometryKey, 'shape'>)[]> = {
+  'carved-box': ['edgeRadius', 'notchRadius', 'notchDepth', 'segments'],
+  'box': ['edgeRadius', 'segments'],
+  'painted-box': ['edgeRadius', 'segments'],
+  'box-inner': ['edgeRadius'],
+  'pip-discs': ['notchRadius'],
+  'd4': [],
+  'd8': [],
+  'd10': [],
+  'd12': [],
+  'd20': [],
+}
+
+export class DieGeometryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DieGeometryError'
+  }
+}
+
+// Least recently used first
+const geometries = new Map<string, THREE.BufferGeometry>()
+
+/**
+ * The geometry of `key`, built unless it was before or was loaded from an asset. It is shared,
+ * so it must not be changed or disposed; see `isDieGeometry`.
+ */
+export function getDieGeometry(key: DieGeometryKey) {
+  const id = getKeyId(key)
+  let geometry = geometries.get(id)
+  if (geometry)
+    geometries.delete(id)
+  else
+    geometry = createDieGeometry(key)
+  addGeometry(id, geometry)
+  return geometry
+}
+
+/** Whether `geometry` came from `getDieGeometry` and is still shared */
+export function isDieGeometry(geometry: THREE.BufferGeometry) {
+  return geometries.get(geometry.userData.dieGeometry) === geometry
+}
+
+/** Packs the geometries of `keys` into an asset for `loadDieGeometries` */
+export function serializeDieGeometries(keys: DieGeometryKey[]): ArrayBuffer {
+  const ids = [...new Set(keys.map(getKeyId))]
+  const entries = ids.map((id) => {
+    const key = keys.find(key => getKeyId(key) === id)!
+    const geometry = getDieGeometry(key)
+    return {
+      key,
+      geometry,
+      attributes: Object.entries(geometry.attributes).map(([name, { array, itemSize }]) =>
+        ({ name, array, itemSize, scale: Math.max(...Array.from(array, Math.abs)) || 1 })),
+      index: geometry.index?.array,
+    }
+  })
+
+  const header: DieGeometryAssetHeader = {
+    version: DIE_GEOMETRY_VERSION,
+    geometries: entries.map(({ key, geometry, attributes, index }) => ({
+      key: Object.fromEntries([['shape', key.shape], ...SHAPE_PARAMS[key.shape].map(param => [param, key[param]])]),
+      count: geometry.attributes.position.count,
+      attributes: attributes.map(({ name, itemSize, scale }) => ({ name, itemSize, scale })),
+      indexCount: index?.length,
+      groups: geometry.groups,
+    })),
+  }
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const headerLength = headerBytes.length
+  const dataOffset = PREAMBLE_BYTES + headerLength
+  const buffer = new ArrayBuffer(dataOffset + getDataLength(header))
+  const view = new DataView(buffer)
+
+  for (let i = 0; i < MAGIC.length; i++)
+    view.setUint8(i, MAGIC.charCodeAt(i))
+  view.setUint16(4, header.version, true)
+  view.setUint32(6, headerLength, true)
+  new Uint8Array(buffer, PREAMBLE_BYTES, headerLength).set(headerBytes)
+
+  let offset = dataOffset
+  entries.forEach(({ geometry, attributes, index }) => {
+    attributes.forEach(({ array, scale }) => {
+      for (let i = 0; i < array.length; i++, offset += 2)
+        view.setInt16(offset, Math.round(array[i] / scale * QUANTIZATION_SCALE), true)
+    })
+    if (index) {
+      const wide = isWideIndex(geometry.attributes.position.count)
+      for (let i = 0; i < index.length; i++, offset += wide ? 4 : 2) {
+        if (wide)
+          view.setUint32(offset, index[i], true)
+        else
+          view.setUint16(offset, index[i], true)
+      }
+    }
+  })
+
+  return buffer
+}
+
+/** Adds the geometries of an asset made by `serializeDieGeometries`, returns their keys */
+export function loadDieGeometries(buffer: ArrayBuffer): DieGeometryKey[] {
+  if (buffer.byteLength < PREAMBLE_BYTES)
+    throw new DieGeometryError('File is too short to be a dice geometry asset')
+
+  const view = new DataView(buffer)
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, MAGIC.length))
+  if (magic !== MAGIC)
+    throw new DieGeometryError('Not a dice geometry asset')
+
+  const version = view.getUint16(4, true)
+  if (version !== DIE_GEOMETRY_VERSION)
+    throw new DieGeometryError(`Unsupported dice geometry version ${version}, expected ${DIE_GEOMETRY_VERSION}`)
+
+  const headerLength = view.getUint32(6, true)
+  if (PREAMBLE_BYTES + headerLength > buffer.byteLength)
+    throw new DieGeometryError(`Dice geometry header of ${headerLength} bytes does not fit into the asset`)
+  const headerText = new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength))
+  let header: DieGeometryAssetHeader
+  try {
+    header = JSON.parse(headerText)
+  }
+  catch {
+    throw new DieGeometryError('Dice geometry header is not valid JSON')
+  }
+  if (!isValidHeader(header))
+    throw new DieGeometryError('Dice geometry header is missing fields or has invalid ones')
+
+  const dataOffset = PREAMBLE_BYTES + headerLength
+  const expectedLength = dataOffset + getDataLength(header)
+  if (buffer.byteLength !== expectedLength)
+    throw new DieGeometryError(`Dice geometry asset is ${buffer.byteLength} bytes, expected ${expectedLength}`)
+
+  let offset = dataOffset
+  header.geometries.forEach(({ key, count, attributes, indexCount, groups }) => {
+    const geometry = new THREE.BufferGeometry()
+    attributes.forEach(({ name, itemSize, scale }) => {
+      const array = new Float32Array(count * itemSize)
+      for (let i = 0; i < array.length; i++, offset += 2)
+        array[i] = view.getInt16(offset, true) / QUANTIZATION_SCALE * scale
+      geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize))
+    })
+    if (indexCount !== undefined) {
+      const wide = isWideIndex(count)
+      const array = wide ? new Uint32Array(indexCount) : new Uint16Array(indexCount)
+      for (let i = 0; i < indexCount; i++, offset += wide ? 4 : 2) {
+        array[i] = wide ? view.getUint32(offset, true) : view.getUint16(offset, true)
+        if (array[i] >= count)
+          throw new DieGeometryError(`Dice geometry ${getKeyId(key)} has an index past its ${count} vertices`)
+      }
+      geometry.setIndex(new THREE.BufferAttribute(array, 1))
+    }
+    groups.forEach(({ start, count, materialIndex }) => geometry.addGroup(start, count, materialIndex))
+
+    const id = getKeyId(key)
+    geometries.get(id)?.dispose()
+    geometries.delete(id)
+    addGeometry(id, geometry)
+  })
+
+  return header.geometries.map(({ key }) => key)
+}
+
+/**
+ * Loads the asset at `url` if there is one. Without it the dice still work, their geometry is
+ * just built when first needed.
+ */
+export async function loadDieGeometryAsset(url: string) {
+  try {
+    const response = await fetch(url)
+    if (!response.ok)
+      throw new DieGeometryError(`${response.status} ${response.statusText}`)
+    return loadDieGeometries(await response.arrayBuffer())
+  }
+  catch (error) {
+    console.warn(`Could not load the dice geometry from ${url}, building it instead:`, error)
+    return []
+  }
+}
+
+function getKeyId(key: DieGeometryKey) {
+  return [key.shape, ...SHAPE_PARAMS[key.shape].map((param) => {
+    if (key[param] === undefined)
+      throw new DieGeometryError(`The ${key.shape} geometry needs ${param}`)
+    return key[param]
+  })].join(':')
+}
+
+/** Takes over `geometry` as the most recently used one, dropping the least recently used if full */
+function addGeometry(id: string, geometry: THREE.BufferGeometry) {
+  geometry.userData.dieGeometry = id
+  geometries.set(id, geometry)
+  if (geometries.size > MAX_GEOMETRIES) {
+    const [oldest, evicted] = geometries.entries().next().value!
+    geometries.delete(oldest)
+    // Dice still using it upload it again, see `THREE.WebGLGeometries`
+    evicted.dispose()
+  }
+}
+
+function createDieGeometry(key: DieGeometryKey): THREE.BufferGeometry {
+  const { shape, edgeRadius = 0, notchRadius = 0, notchDepth = 0, segments = 0 } = key
+  switch (shape) {
+    case 'carved-box':
+      return createBoxGeometry(edgeRadius, notchRadius, notchDepth, segments)
+    case 'box':
+      return createFlatBoxGeometry(edgeRadius, segments)
+    case 'painted-box':
+      return setPipAtlasUVs(createFlatBoxGeometry(edgeRadius, segments))
+    case 'box-inner':
+      return createInnerGeometry(edgeRadius)
+    case 'pip-discs':
+      return createPipGeometry(notchRadius)
+    default:
+      return createPolyhedronGeometry(getDieDefinition(shape))
+  }
+}
+
+// Faces of `THREE.BoxGeometry` in the order of its groups: the normal, and the axes the pips of
+// the face are laid out along
+export const BOX_FACES: [Vec3Tuple, Vec3Tuple, Vec3Tuple][] = [
+  [[1, 0, 0], [0, 0, 1], [0, 1, 0]],
+  [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
+  [[0, 1, 0], [1, 0, 0], [0, 0, 1]],
+  [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
+  [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+  [[0, 0, -1], [1, 0, 0], [0, 1, 0]],
+]
+
+// The pips `createBoxGeometry` carves into each of `BOX_FACES`, along its axes
+export const BOX_FACE_PIPS: [number, number][][] = [
+  [[-1, -1], [1, 1]],
+  [[-1, -1], [1, -1], [0, 0], [-1, 1], [1, 1]],
+  [[0, 0]],
+  [[-1, -1], [-1, 0], [-1, 1], [1, -1], [1, 0], [1, 1]],
+  [[1, -1], [0, 0], [-1, 1]],
+  [[-1, -1], [-1, 1], [1, -1], [1, 1]],
+].map(pips => pips.map(([u, v]) => [u * PIP_OFFSET, v * PIP_OFFSET]))
+
+/** The rounded d6 with its pips carved in */
+function createBoxGeometry(edgeRadius: number, notchRadius: number, notchDepth: number, segments: number) {
+  let boxGeometry: THREE.BufferGeometry = new THREE.BoxGeometry(1, 1, 1, segments, segments, segments)
+
+  const positionAttr = boxGeometry.attributes.position
+
+  for (let i = 0; i < positionAttr.count; i++) {
+    const position = roundBoxVertex(new THREE.Vector3().fromBufferAttribute(positionAttr, i), edgeRadius)
+
+    const notchWave = (v: number) => {
+      v = (1 / notchRadius) * v
+      v = Math.PI * Math.max(-1, Math.min(1, v))
+      return notchDepth * (Math.cos(v) + 1.0)
+    }
+    const notch = (pos: [number, number]) => notchWave(pos[0]) * notchWave(pos[1])
+
+    const offset = PIP_OFFSET
+
+    if (position.y === 0.5) {
+      position.y -= notch([position.x, position.z])
+    }
+    else if (position.x === 0.5) {
+      position.x -= notch([position.y + offset, position.z + offset])
+      position.x -= notch([position.y - offset, position.z - offset])
+    }
+    else if (position.z === 0.5) {
+      position.z -= notch([position.x - offset, position.y + offset])
+      position.z -= notch([position.x, position.y])
+      position.z -= notch([position.x + offset, position.y - offset])
+    }
+    else if (position.z === -0.5) {
+      position.z += notch([position.x + offset, position.y + offset])
+      position.z += notch([position.x + offset, position.y - offset])
+      position.z += notch([position.x - offset, position.y + offset])
+      position.z += notch([position.x - offset, position.y - offset])
+    }
+    else if (position.x === -0.5) {
+      position.x += notch([position.y + offset, position.z + offset])
+      position.x += notch([position.y + offset, position.z - offset])
+      position.x += notch([position.y, position.z])
+      position.x += notch([position.y - offset, position.z + offset])
+      position.x += notch([position.y - offset, position.z - offset])
+    }
+    else if (position.y === -0.5) {
+      position.y += notch([position.x + offset, position.z + offset])
+      position.y += notch([position.x + offset, position.z])
+      position.y += notch([position.x + offset, position.z - offset])
+      position.y += notch([position.x - offset, position.z + offset])
+      position.y += notch([position.x - offset, position.z])
+      position.y += notch([position.x - offset, position.z - offset])
+    }
+
+    positionAttr.setXYZ(i, position.x, position.y, position.z)
+  }
+
+  boxGeometry.deleteAttribute('normal')
+  boxGeometry.deleteAttribute('uv')
+  boxGeometry = BufferGeometryUtils.mergeVertices(boxGeometry)
+
+  boxGeometry.computeVertexNormals()
+
+  // Projected onto the face each vertex faces most, for patterned materials
+  const normalAttr = boxGeometry.attributes.normal
+  const uvs: number[] = []
+  for (let i = 0; i < normalAttr.count; i++) {
+    const normal = new THREE.Vector3().fromBufferAttribute(normalAttr, i)
+    const position = new THREE.Vector3().fromBufferAttribute(boxGeometry.attributes.position, i)
+    const [x, y, z] = [Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z)]
+    if (x >= y && x >= z)
+      uvs.push(position.z + 0.5, position.y + 0.5)
+    else if (y >= z)
+      uvs.push(position.x + 0.5, position.z + 0.5)
+    else
+      uvs.push(position.x + 0.5, position.y + 0.5)
+  }
+  boxGeometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2))
+
+  return boxGeometry
+}
+
+/**
+ * The rounded d6 with flat faces, keeping the UVs and groups of `THREE.BoxGeometry`. Its
+ * subdivisions are spread out so the rounding at either end of an edge gets a quarter of them,
+ * however few there are.
+ */
+function createFlatBoxGeometry(edgeRadius: number, segments: number) {
+  const bevel = Math.max(1, Math.round(segments / 4))
+  const boxGeometry = new THREE.BoxGeometry(1, 1, 1, segments, segments, segments)
+  const subCubeHalfSize = 0.5 - edgeRadius
+  // Evenly spaced in [-0.5, 0.5] to `bevel` steps across the rounding and the rest across the face
+  const spread = (value: number) => {
+    const step = Math.round((value + 0.5) * segments)
+    if (step <= bevel)
+      return -0.5 + edgeRadius * step / bevel
+    if (step >= segments - bevel)
+      return 0.5 - edgeRadius * (segments - step) / bevel
+    return -subCubeHalfSize + 2 * subCubeHalfSize * (step - bevel) / (segments - 2 * bevel)
+  }
+
+  const positionAttr = boxGeometry.attributes.position
+  const normalAttr = boxGeometry.attributes.normal
+  const uvAttr = boxGeometry.attributes.uv
+  for (let i = 0; i < positionAttr.count; i++) {
+    const grid = new THREE.Vector3().fromBufferAttribute(positionAttr, i)
+    const position = roundBoxVertex(new THREE.Vector3(spread(grid.x), spread(grid.y), spread(grid.z)), edgeRadius)
+    positionAttr.setXYZ(i, position.x, position.y, position.z)
+    // The faces don't share vertices, so the normals are computed from the rounding instead
+    const normal = position.clone().sub(position.clone().clampScalar(-subCubeHalfSize, subCubeHalfSize)).normalize()
+    normalAttr.setXYZ(i, normal.x, normal.y, normal.z)
+    uvAttr.setXY(i, spread(uvAttr.getX(i) - 0.5) + 0.5, spread(uvAttr.getY(i) - 0.5) + 0.5)
+  }
+
+  return boxGeometry
+}
+
+/** Moves a vertex of the unit cube onto the cube with its edges rounded by `edgeRadius` */
+function roundBoxVertex(position: THREE.Vector3, edgeRadius: number) {
+  const subCubeHalfSize = 0.5 - edgeRadius
+  const subCube = new THREE.Vector3(Math.sign(position.x), Math.sign(position.y), Math.sign(position.z)).multiplyScalar(subCubeHalfSize)
+  const addition = new THREE.Vector3().subVectors(position, subCube)
+
+  if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.y) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
+    addition.normalize().multiplyScalar(edgeRadius)
+    position = subCube.add(addition)
+  }
+  else if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.y) > subCubeHalfSize) {
+    addition.z = 0
+    addition.normalize().multiplyScalar(edgeRadius)
+    position.x = subCube.x + addition.x
+    position.y = subCube.y + addition.y
+  }
+  else if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
+    addition.y = 0
+    addition.normalize().multiplyScalar(edgeRadius)
+    position.x = subCube.x + addition.x
+    position.z = subCube.z + addition.z
+  }
+  else if (Math.abs(position.y) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
+    addition.x = 0
+    addition.normalize().multiplyScalar(edgeRadius)
+    position.y = subCube.y + addition.y
+    position.z = subCube.z + addition.z
+  }
+  return position
+}
+
+/** Maps face `i` of a box onto cell `i` of the 3 x 2 atlas drawn by `createPipNormalMap` in `dieMeshes.ts` */
+function setPipAtlasUVs(geometry: THREE.BufferGeometry) {
+  const positionAttr = geometry.attributes.position
+  const uvAttr = geometry.attributes.uv
+  geometry.groups.forEach(({ start, count }, face) => {
+    const [, uAxis, vAxis] = BOX_FACES[face].map(axis => new THREE.Vector3(...axis))
+    for (let i = start; i < start + count; i++) {
+      const vertex = geometry.index!.getX(i)
+      const position = new THREE.Vector3().fromBufferAttribute(positionAttr, vertex)
+      uvAttr.setXY(vertex, (face % 3 + position.dot(uAxis) + 0.5) / 3, (Math.floor(face / 3) + position.dot(vAxis) + 0.5) / 2)
+    }
+  })
+
+  return geometry
+}
+
+/** The painted pips, just above the faces and smaller than their dimples, so those show around them */
+function createPipGeometry(notchRadius: number) {
+  const disc = new THREE.CircleGeometry(notchRadius * 0.6, 16)
+  const forward = new THREE.Vector3(0, 0, 1)
+  return BufferGeometryUtils.mergeBufferGeometries(BOX_FACES.flatMap(([normal, uAxis, vAxis], face) =>
+    BOX_FACE_PIPS[face].map(([u, v]) => {
+      const center = new THREE.Vector3(...normal).multiplyScalar(0.502)
+        .add(new THREE.Vector3(...uAxis).multiplyScalar(u))
+        .add(new THREE.Vector3(...vAxis).multiplyScalar(v))
+      return disc.clone()
+        .applyQuaternion(new THREE.Quaternion().setFromUnitVectors(forward, new THREE.Vector3(...normal)))
+        .translate(center.x, center.y, center.z)
+    })), false)
+}
+
+/**
+ * Non-indexed so every face gets its own flat normals. Each face is a group, with UVs that map
+ * the square around the face onto the whole texture, for custom faces.
+ */
+function createPolyhedronGeometry(definition: DieDefinition) {
+  const geometry = new THREE.BufferGeometry()
+  const positions: number[] = []
+  const uvs: number[] = []
+  definition.faces.forEach((face, faceIndex) => {
+    const { center, xAxis, yAxis, radius } = getFaceFrame(definition, face)
+    const start = positions.length / 3
+    const corner = (i: number) => {
+      const vertex = definition.vertices[face.vertices[i]]
+      const offset = new THREE.Vector3(...vertex).sub(center)
+      positions.push(...vertex)
+      uvs.push(0.5 + offset.dot(xAxis) / radius / 2, 0.5 + offset.dot(yAxis) / radius / 2)
+    }
+    for (let i = 1; i < face.vertices.length - 1; i++) {
+      corner(0)
+      corner(i)
+      corner(i + 1)
+    }
+    geometry.addGroup(start, positions.length / 3 - start, faceIndex)
+  })
+
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2))
+  geometry.computeVertexNormals()
+
+  return geometry
+}
+
+/**
+ * Frame of a face for drawing on it: its center, the radius of the circle through its corners
+ * and of the one inside its edges, and in-plane axes with y pointing at its first corner.
+ */
+export function getFaceFrame(definition: DieDefinition, face: DieFace) {
+  const center = new THREE.Vector3(...getFaceCenter(definition, face))
+  const normal = new THREE.Vector3(...face.normal)
+  const corners = face.vertices.map(i => new THREE.Vector3(...definition.vertices[i]))
+  const radius = Math.max(...corners.map(corner => corner.distanceTo(center)))
+  const inradius = Math.min(...corners.map((corner, i) =>
+    new THREE.Line3(corner, corners[(i + 1) % corners.length]).closestPointToPoint(center, true, new THREE.Vector3()).distanceTo(center)))
+  const yAxis = corners[0].clone().sub(center).normalize()
+  const xAxis = yAxis.clone().cross(normal)
+  return { center, normal, corners, radius, inradius, xAxis, yAxis }
+}
+
+function createInnerGeometry(edgeRadius: number) {
+  const baseGeometry = new THREE.PlaneGeometry(1 - 2 * edgeRadius, 1 - 2 * edgeRadius)
+  const offset = 0.48
+  // return BufferGeometryUtils.mergeGeometries([
+  return BufferGeometryUtils.mergeBufferGeometries([
+    baseGeometry.clone().translate(0, 0, offset),
+    baseGeometry.clone().translate(0, 0, -offset),
+    baseGeometry.clone().rotateX(0.5 * Math.PI).translate(0, -offset, 0),
+    baseGeometry.clone().rotateX(0.5 * Math.PI).translate(0, offset, 0),
+    baseGeometry.clone().rotateY(0.5 * Math.PI).translate(-offset, 0, 0),
+    baseGeometry.clone().rotateY(0.5 * Math.PI).translate(offset, 0, 0),
+  ], false)
+}
+
+function isValidHeader(header: DieGeometryAssetHeader) {
+  return typeof header === 'object' && header !== null
+    && Array.isArray(header.geometries)
+    && header.geometries.every(isValidGeometry)
+}
+
+function isValidGeometry(geometry: DieGeometryAssetHeader['geometries'][number]) {
+  return typeof geometry === 'object' && geometry !== null
+    && isValidKey(geometry.key)
+    && isCount(geometry.count)
+    && Array.isArray(geometry.attributes)
+    && geometry.attributes.every(isValidAttribute)
+    && (geometry.indexCount === undefined || isCount(geometry.indexCount))
+    && Array.isArray(geometry.groups)
+    && geometry.groups.every(isValidGroup)
+}
+
+function isValidAttribute({ name, itemSize, scale }: DieGeometryAssetHeader['geometries'][number]['attributes'][number]) {
+  return typeof name === 'string'
+    && Number.isInteger(itemSize) && itemSize >= 1 && itemSize <= 4
+    && Number.isFinite(scale) && scale > 0
+}
+
+function isValidGroup({ start, count, materialIndex }: DieGeometryAssetHeader['geometries'][number]['groups'][number]) {
+  return isCount(start) && isCount(count) && (materialIndex === undefined || isCount(materialIndex))
+}
+
+function isValidKey(key: DieGeometryKey) {
+  return typeof key === 'object' && key !== null
+    && Object.hasOwn(SHAPE_PARAMS, key.shape)
+    && SHAPE_PARAMS[key.shape].every(param => Number.isFinite(key[param]))
+}
+
+function isCount(value: unknown) {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+/** Bytes of the data following the header */
+function getDataLength({ geometries }: DieGeometryAssetHeader) {
+  return geometries.reduce((length, { count, attributes, indexCount = 0 }) =>
+    length + attributes.reduce((sum, { itemSize }) => sum + 2 * count * itemSize, 0) + (isWideIndex(count) ? 4 : 2) * indexCount, 0)
+}
+
+function isWideIndex(vertexCount: number) {
+  return vertexCount > 65536
+}
@@ -0,0 +1,161 @@
+import * as THREE from 'three'
+import type { DieType } from './dice'
+import type { DieMeshCache } from './dieMeshes'
+import { DIE_LEVELS, createDieMesh, disposeDieMeshes } from './dieMeshes'
+import type { DieTheme, PipSettings } from './theme'
+import { DEFAULT_THEME, releaseMaterials, retainMaterials } from './theme'
+
+/**
+ * Draws the dice instanced: dice of the same type and theme share an `InstancedMesh` per part
+ * and level of detail, so a pool of a hundred dice takes as many draw calls as one die has
+ * parts. That is two for a d6 and one for a custom die, but a polyhedron has a number decal
+ * per face on top of its body, 21 parts for a d20. A die itself is a bare `Object3D` that is
+ * never rendered; `update` copies the poses of the dice to their instances and picks the level
+ * of detail of each by how large it is on screen.
+ */
+
+export interface DiceInstances {
+  /** Holds the instanced meshes, to add to the scene and raycast against */
+  readonly group: THREE.Group
+  /** An object per die, which is drawn wherever it is placed */
+  readonly dice: THREE.Object3D[]
+  /** Takes over the dice and their themes, dice that are kept stay where they are */
+  setDice: (types: DieType[], themes: DieTheme[], pips: PipSettings) => void
+  /** Moves the instances to the dice, call before rendering */
+  update: (camera: THREE.Camera) => void
+  dispose: () => void
+}
+
+/** Dice of one type and theme */
+interface Batch {
+  /** Indices into `dice` */
+  dice: number[]
+  /** Per level of detail, the parts of a die; levels with the same meshes share the array */
+  levels: InstancedPart[][]
+}
+
+interface InstancedPart {
+  mesh: THREE.InstancedMesh
+  /** Of the part within the die */
+  matrix: THREE.Matrix4
+}
+
+// Share of the view height a die has to cover to be drawn in each level of detail but the last
+const LEVEL_SIZES = [0.06, 0.025]
+
+export function createDiceInstances(): DiceInstances {
+  const group = new THREE.Group()
+  const dice: THREE.Object3D[] = []
+  const cache: DieMeshCache = new Map()
+  let pips: PipSettings | undefined
+  let batches: Batch[] = []
+
+  const instanceMatrix = new THREE.Matrix4()
+  const cameraPosition = new THREE.Vector3()
+
+  /** Takes the instanced meshes out, to `release` once their replacements hold their materials */
+  const detach = () => {
+    const meshes = [...group.children] as THREE.InstancedMesh[]
+    group.clear()
+    batches = []
+    return meshes
+  }
+
+  const release = (meshes: THREE.InstancedMesh[]) => {
+    meshes.forEach(mesh => mesh.dispose())
+    releaseMaterials(meshes.flatMap(mesh => mesh.material))
+  }
+
+  /** The parts of a die at each level of detail, with room for `count` instances */
+  const createLevels = (type: DieType, theme: DieTheme, count: number) => {
+    const parts = new Map<string, InstancedPart[]>()
+    return Array.from({ length: DIE_LEVELS }, (_, level) => {
+      const mesh = createDieMesh(type, theme, pips!, cache, level)
+      mesh.updateMatrixWorld(true)
+      const meshes: THREE.Mesh[] = []
+      mesh.traverse((child) => {
+        if (child instanceof THREE.Mesh)
+          meshes.push(child)
+      })
+      // Dice without levels of detail get the same meshes for every level
+      const key = meshes.map(child => child.geometry.uuid).join()
+      if (!parts.has(key)) {
+        parts.set(key, meshes.map((child) => {
+          const instanced = new THREE.InstancedMesh(child.geometry, child.material, count)
+          retainMaterials([child.material].flat())
+          instanced.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+          instanced.castShadow = child.castShadow
+          // The bounds of the geometry say nothing about where the instances are
+          instanced.frustumCulled = false
+          group.add(instanced)
+          return { mesh: instanced, matrix: child.matrixWorld.clone() }
+        }))
+      }
+      return parts.get(key)!
+    })
+  }
+
+  const getLevel = (die: THREE.Object3D, camera: THREE.Camera) => {
+    let size = 1
+    if (camera instanceof THREE.OrthographicCamera) {
+      size = camera.zoom / (camera.top - camera.bottom)
+    }
+    else if (camera instanceof THREE.PerspectiveCamera) {
+      const distance = die.position.distanceTo(cameraPosition.setFromMatrixPosition(camera.matrixWorld))
+      size = camera.zoom / (2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2))
+    }
+    const level = LEVEL_SIZES.findIndex(min => size >= min)
+    return level === -1 ? DIE_LEVELS - 1 : level
+  }
+
+  return {
+    group,
+    dice,
+    setDice: (types, themes, newPips) => {
+      if (pips && JSON.stringify(newPips) !== JSON.stringify(pips))
+        disposeDieMeshes(cache)
+      pips = structuredClone(newPips)
+
+      const previous = detach()
+      dice.length = Math.min(dice.length, types.length)
+      while (dice.length < types.length)
+        dice.push(new THREE.Object3D())
+
+      const dieBatches = new Map<string, Batch & { type: DieType, theme: DieTheme }>()
+      types.forEach((type, i) => {
+        const theme = themes[i] ?? DEFAULT_THEME
+        const key = JSON.stringify([type, theme])
+        if (!dieBatches.has(key))
+          dieBatches.set(key, { type, theme, dice: [], levels: [] })
+        dieBatches.get(key)!.dice.push(i)
+      })
+      dieBatches.forEach((batch) => {
+        batch.levels = createLevels(batch.type, batch.theme, batch.dice.length)
+        batches.push(batch)
+      })
+      // Only now, so materials the dice keep wearing are not disposed and compiled again
+      release(previous)
+    },
+    update: (camera) => {
+      camera.updateMatrixWorld()
+      batches.forEach(({ dice: indices, levels }) => {
+        const parts = new Set(levels)
+        parts.forEach(level => level.forEach(({ mesh }) => mesh.count = 0))
+        indices.forEach((i) => {
+          const die = dice[i]
+          die.updateMatrix()
+          levels[getLevel(die, camera)].forEach(({ mesh, matrix }) =>
+            mesh.setMatrixAt(mesh.count++, instanceMatrix.multiplyMatrices(die.matrix, matrix)))
+        })
+        parts.forEach(level => level.forEach(({ mesh }) => {
+          mesh.visible = mesh.count > 0
+          mesh.instanceMatrix.needsUpdate = true
+        }))
+      })
+    },
+    dispose: () => {
+      release(detach())
+      disposeDieMeshes(cache)
+    },
+  }
+}
@@ -0,0 +1,379 @@
+import * as THREE from 'three'
+import { clamp } from 'three/src/math/MathUtils'
+import type { CameraController, CameraSettings } from './cameraController'
+import { DEFAULT_CAMERA_SETTINGS, createCameraController } from './cameraController'
+import type { DieType } from './dice'
+import { createDiceInstances } from './diceInstances'
+import type { PhysicsConfig } from './physics'
+import { DEFAULT_PHYSICS } from './physics'
+import { initPointerThrow } from './pointerThrow'
+import type { DieOutcome, MagicThrowResult, SimulationResult, TableRules, ThrowDescriptor } from './simulation'
+import { DEFAULT_SIMULATION_CONFIG, serializeThrow } from './simulation'
+import { createSimulationClient } from './simulationClient'
+import type { SimulationTrack } from './simulationTrack'
+import { getPose, getRestFrame, interpolatePose } from './simulationTrack'
+import type { DieTheme, PipSettings } from './theme'
+import { DEFAULT_PIPS } from './theme'
+import type { TrayConfig } from './tray'
+import { DEFAULT_TRAY } from './tray'
+import { clearTrayGroup, updateTrayGroup } from './trayMesh'
+
+/**
+ * A dice roller living in an element of the page: it adds a canvas filling the element, throws
+ * the dice and animates them. Every roller has its own scene, camera and config, so there can
+ * be several on one page.
+ */
+
+export interface DiceRollerConfig {
+  dice: DieType[]
+  /** Per die, dice without one are drawn in the default theme */
+  themes: DieTheme[]
+  pips: PipSettings
+  tray: TrayConfig
+  physics: PhysicsConfig
+  tableRules: TableRules
+  camera: CameraSettings
+  /** Animate every simulated frame at 60 fps, however long rendering takes, e.g. for recording */
+  fixedFrames: boolean
+  /** Whether the dice can be picked up and thrown with the mouse or a finger */
+  handThrows: boolean
+}
+
+export const DEFAULT_DICE_ROLLER_CONFIG: DiceRollerConfig = {
+  dice: ['d6', 'd6'],
+  themes: [],
+  pips: DEFAULT_PIPS,
+  tray: DEFAULT_TRAY,
+  physics: DEFAULT_PHYSICS,
+  tableRules: DEFAULT_SIMULATION_CONFIG.tableRules,
+  camera: DEFAULT_CAMERA_SETTINGS,
+  fixedFrames: false,
+  handThrows: true,
+}
+
+export interface DiceRollerOptions extends Partial<DiceRollerConfig> {
+  /** Called with hand throws instead of rolling them right away, e.g. to roll them through a room */
+  onHandThrow?: (descriptor: ThrowDescriptor) => void
+}
+
+export interface RollOptions {
+  /** Random by default; without one a hand throw is fully decided by the gesture */
+  seed?: string
+  /** A throw made by hand instead of the random impulse of the seed */
+  throw?: ThrowDescriptor
+  /** Magic roll, searches for a throw landing on these values */
+  desiredRolls?: number[]
+}
+
+export interface DiceRollerEventMap {
+  rollStart: { seed: string, dice: DieType[], throw?: ThrowDescriptor }
+  /** While a roll is animated, as each die comes to rest */
+  dieSettled: { index: number, value: number, outcome: DieOutcome }
+  /** Once the animation of a roll finished */
+  rollComplete: { result: SimulationResult | MagicThrowResult }
+  /** Every animated frame, of rolls and `play` alike; `time` is in milliseconds since frame 0 */
+  frame: { index: number, time: number, last: boolean }
+}
+
+export type DiceRollerEvent = keyof DiceRollerEventMap
+
+export type DiceRollerListener<K extends DiceRollerEvent> = (event: DiceRollerEventMap[K]) => void
+
+export interface DiceRoller {
+  readonly canvas: HTMLCanvasElement
+  /**
+   * Simulates a throw of the current dice in a worker and animates it while it is simulated.
+   * Resolves once simulated, long before the dice land, or with undefined if another throw
+   * took over first. Rejects with a `SimulationError` if the throw could not be simulated.
+   */
+  roll: (options?: RollOptions) => Promise<SimulationResult | MagicThrowResult | undefined>
+  /** Animates a recorded track without simulating, e.g. of a replay */
+  play: (track: SimulationTrack) => void
+  /** Takes over the given settings, only what changed is rebuilt */
+  setConfig: (config: Partial<DiceRollerConfig>) => void
+  getConfig: () => DiceRollerConfig
+  /** Returns a function removing the listener again */
+  on: <K extends DiceRollerEvent>(type: K, listener: DiceRollerListener<K>) => () => void
+  /** Removes the canvas and frees everything the roller holds on to */
+  dispose: () => void
+}
+
+/** Track being animated, for a roll its frames keep coming in until it is done */
+interface Playback {
+  track: SimulationTrack
+  done: boolean
+  /** Of the roll, once it was simulated */
+  result?: SimulationResult | MagicThrowResult
+}
+
+export function createDiceRoller(container: HTMLElement, options: DiceRollerOptions = {}): DiceRoller {
+  const { onHandThrow, ...initialConfig } = options
+  const config: DiceRollerConfig = structuredClone({ ...DEFAULT_DICE_ROLLER_CONFIG, ...initialConfig })
+  const { floorY } = DEFAULT_SIMULATION_CONFIG
+
+  const canvas = document.createElement('canvas')
+  canvas.style.display = 'block'
+  // The dice can be picked up and thrown by touch
+  canvas.style.touchAction = 'none'
+  container.appendChild(canvas)
+
+  const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true, canvas })
+  renderer.shadowMap.enabled = true
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+  renderer.setSize(container.clientWidth, container.clientHeight)
+
+  const scene = new THREE.Scene()
+  let cameraController: CameraController
+  const diceInstances = createDiceInstances()
+  scene.add(diceInstances.group)
+  const render = () => {
+    diceInstances.update(cameraController.camera())
+    renderer.render(scene, cameraController.camera())
+  }
+
+  cameraController = createCameraController(canvas, {
+    settings: config.camera,
+    target: new THREE.Vector3(0, floorY, 0),
+    getViewSize: () => Math.max(config.tray.width, config.tray.depth) / 2,
+    render,
+  })
+
+  const ambientLight = new THREE.AmbientLight(0xFFFFFF, 0.5)
+  scene.add(ambientLight)
+  const topLight = new THREE.PointLight(0xFFFFFF, 0.5)
+  topLight.position.set(10, 15, 0)
+  topLight.castShadow = true
+  topLight.shadow.mapSize.width = 2048
+  topLight.shadow.mapSize.height = 2048
+  topLight.shadow.camera.near = 5
+  topLight.shadow.camera.far = 400
+  scene.add(topLight)
+
+  const floor = new THREE.Mesh(
+    new THREE.PlaneGeometry(1000, 1000),
+    new THREE.ShadowMaterial({
+      opacity: 0.1,
+    }),
+  )
+  floor.receiveShadow = false
+  floor.position.y = floorY
+  floor.quaternion.setFromAxisAngle(new THREE.Vector3(-1, 0, 0), Math.PI * 0.5)
+  scene.add(floor)
+
+  const trayGroup = new THREE.Group()
+  scene.add(trayGroup)
+
+  // The throw being animated, a newer one takes over by replacing it
+  let animation: symbol | undefined
+  const simulation = createSimulationClient()
+
+  const listeners: { [K in DiceRollerEvent]: Set<DiceRollerListener<K>> } = {
+    rollStart: new Set(),
+    dieSettled: new Set(),
+    rollComplete: new Set(),
+    frame: new Set(),
+  }
+  const emit = <K extends DiceRollerEvent>(type: K, event: DiceRollerEventMap[K]) =>
+    (listeners[type] as Set<DiceRollerListener<K>>).forEach(listener => listener(event))
+
+  const resize = () => {
+    renderer.setSize(container.clientWidth, container.clientHeight)
+    cameraController.resize()
+    render()
+  }
+  const resizeObserver = new ResizeObserver(resize)
+  resizeObserver.observe(container)
+
+  /**
+   * Moves the dice along the frames of `playback`. The frames of a roll stream in while it is
+   * simulated, until then the dice wait at the last frame that arrived.
+   */
+  const animate = (id: symbol, playback: Playback) => {
+    let track = playback.track
+    let start = performance.now()
+    const settled: boolean[] = []
+
+    let fixedFrameIdx = 0
+    const step = () => {
+      if (id !== animation)
+        return
+      const now = performance.now()
+      if (track !== playback.track) {
+        // An attempt was given up and the throw simulated again, start over
+        track = playback.track
+        start = now
+        fixedFrameIdx = 0
+      }
+      const { result } = playback
+      const available = track.frameCount - 1
+
+      let frame: number
+      let finished = false
+      if (config.fixedFrames) {
+        if (fixedFrameIdx > available) {
+          requestAnimationFrame(step)
+          return
+        }
+        frame = fixedFrameIdx
+        diceInstances.dice.forEach((die, idx) => getPose(track, frame, idx, die.position, die.quaternion))
+        finished = playback.done && fixedFrameIdx >= available
+      }
+      else {
+        let time = ((now - start) / 1000) * 60
+        if (!playback.done && time > available) {
+          // Caught up with the simulation, hold the clock until more frames arrive
+          time = available
+          start = now - available / 60 * 1000
+        }
+        time = clamp(time, 0, available)
+        frame = Math.floor(time)
+        diceInstances.dice.forEach((die, idx) => interpolatePose(track, time, idx, die.position, die.quaternion))
+        finished = playback.done && time >= available
+      }
+
+      cameraController.track(diceInstances.dice.map(die => die.position), finished)
+      render()
+
+      if (result) {
+        result.rollResult.forEach((value, index) => {
+          if (settled[index] || (!finished && frame < getRestFrame(result.track, index)))
+            return
+          settled[index] = true
+          emit('dieSettled', { index, value, outcome: result.outcomes[index] })
+        })
+      }
+      // Fixed frames are timed at exactly 60 fps, however long they took to render
+      emit('frame', { index: fixedFrameIdx, time: config.fixedFrames ? fixedFrameIdx * 1000 / 60 : now - start, last: finished })
+
+      if (finished) {
+        animation = undefined
+        if (result)
+          emit('rollComplete', { result })
+        return
+      }
+      fixedFrameIdx++
+      requestAnimationFrame(step)
+    }
+    step()
+  }
+
+  /** Stops animating and simulating, e.g. while the dice are in hand */
+  const stop = () => {
+    animation = undefined
+    simulation.cancel()
+  }
+
+  const play = (track: SimulationTrack) => {
+    stop()
+    // eslint-disable-next-line symbol-description
+    animate(animation = Symbol(), { track, done: true })
+  }
+
+  const roll = async ({ seed, throw: throwDescriptor, desiredRolls }: RollOptions = {}) => {
+    seed ??= throwDescriptor ? serializeThrow(throwDescriptor) : Math.random().toString(36).slice(2)
+    // eslint-disable-next-line symbol-description
+    const id = animation = Symbol()
+    emit('rollStart', { seed, dice: [...config.dice], throw: throwDescriptor })
+    const input = {
+      dice: config.dice,
+      seed,
+      throw: throwDescriptor,
+      tableRules: config.tableRules,
+      physics: config.physics,
+      tray: config.tray,
+    }
+    let playback: Playback | undefined
+    const result = await simulation.simulate(input, desiredRolls, (track) => {
+      if (playback) {
+        playback.track = track
+        return
+      }
+      // The dice start moving as soon as the first frames are in
+      playback = { track, done: false }
+      animate(id, playback)
+    }).catch((error) => {
+      // Otherwise the dice would wait for frames that never come
+      if (animation === id)
+        animation = undefined
+      throw error
+    })
+    // The streamed frames are the same as those of the result, only not decimated
+    if (result && playback)
+      Object.assign(playback, { done: true, result })
+    return result
+  }
+
+  let stopPointerThrow: (() => void) | undefined
+  const updateHandThrows = () => {
+    stopPointerThrow?.()
+    stopPointerThrow = config.handThrows
+      ? initPointerThrow(canvas, {
+        getCamera: () => cameraController.camera(),
+        dice: diceInstances.dice,
+        targets: [diceInstances.group],
+        onPickUp: stop,
+        onMove: render,
+        onThrow: descriptor => onHandThrow ? onHandThrow(descriptor) : roll({ throw: descriptor }),
+      })
+      : undefined
+  }
+
+  const setConfig = (changes: Partial<DiceRollerConfig>) => {
+    const changed = (Object.keys(changes) as (keyof DiceRollerConfig)[])
+      .filter(key => changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(config[key]))
+    if (changed.length === 0)
+      return
+    const { camera, ...rest } = structuredClone(Object.fromEntries(changed.map(key => [key, changes[key]]))) as Partial<DiceRollerConfig>
+    Object.assign(config, rest)
+
+    if (camera) {
+      // In place, the camera controller reads the settings live
+      Object.assign(config.camera.fixed, camera.fixed)
+      Object.assign(config.camera.orbit, camera.orbit)
+      Object.assign(config.camera.cinematic, camera.cinematic)
+      Object.assign(config.camera, { ...camera, fixed: config.camera.fixed, orbit: config.camera.orbit, cinematic: config.camera.cinematic })
+      cameraController.applySettings()
+    }
+    if (changed.some(key => key === 'dice' || key === 'themes' || key === 'pips'))
+      diceInstances.setDice(config.dice, config.themes, config.pips)
+    if (changed.includes('tray')) {
+      updateTrayGroup(trayGroup, config.tray, floorY)
+      // The orthographic camera shows the whole tray
+      cameraController.resize()
+    }
+    if (changed.includes('handThrows'))
+      updateHandThrows()
+    render()
+  }
+
+  updateTrayGroup(trayGroup, config.tray, floorY)
+  diceInstances.setDice(config.dice, config.themes, config.pips)
+  updateHandThrows()
+  resize()
+
+  return {
+    canvas,
+    roll,
+    play,
+    setConfig,
+    getConfig: () => structuredClone(config),
+    on: (type, listener) => {
+      listeners[type].add(listener)
+      return () => listeners[type].delete(listener)
+    },
+    dispose: () => {
+      stop()
+      simulation.dispose()
+      resizeObserver.disconnect()
+      stopPointerThrow?.()
+      cameraController.dispose()
+      diceInstances.dispose()
+      clearTrayGroup(trayGroup)
+      floor.geometry.dispose()
+      floor.material.dispose()
+      renderer.dispose()
+      canvas.remove()
+      Object.values(listeners).forEach(set => set.clear())
+    },
+  }
+}
@@ -0,0 +1,193 @@
+import seedrandom from 'seedrandom'
+import type { CameraType } from './cameraController'
+import { CAMERA_TYPES } from './cameraController'
+import type { DieType } from './dice'
+import { getDieDefinition, getFaceValues, isDieType } from './dice'
+import type { DiceRoller } from './diceRoller'
+import { createDiceRoller } from './diceRoller'
+import type { NotationNode, NotationResult } from './notation'
+import { NotationError, evaluateNotation, getNotationDice, parseNotation } from './notation'
+import type { DieOutcome, SimulationResult, ThrowDescriptor } from './simulation'
+import { MAX_DICE } from './simulation'
+
+/**
+ * `<dice-roller>`, the dice roller as a custom element for pages without a build step. The
+ * attributes mirror the URL parameters of the demo: `dice` or `number-of-dice`, `notation`,
+ * `seed`, `magic`, `desired-rolls` and `camera-type`. The dice are thrown once the element is
+ * connected, and again by `throw()` or by hand; every throw fires `roll-start`, `die-settled`
+ * and `roll-complete` events.
+ */
+
+export interface DiceRollResult {
+  rollResult: number[]
+  /** The seed that was asked for, the effective one may differ if the throw was retried */
+  seed: string
+  outcomes: DieOutcome[]
+  /** Set with a `notation` attribute, including rerolls and explosions */
+  notation?: NotationResult
+}
+
+export interface DiceRollerElementEventMap {
+  'roll-start': CustomEvent<{ seed: string, dice: DieType[] }>
+  'die-settled': CustomEvent<{ index: number, value: number, outcome: DieOutcome }>
+  'roll-complete': CustomEvent<DiceRollResult>
+}
+
+const STYLE = `
+:host {
+  display: block;
+  position: relative;
+  height: 300px;
+}
+div {
+  position: absolute;
+  inset: 0;
+}
+`
+
+export class DiceRollerElement extends HTMLElement {
+  static observedAttributes = ['dice', 'number-of-dice', 'notation', 'seed', 'magic', 'desired-rolls', 'camera-type']
+
+  private roller: DiceRoller | undefined
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' })
+    shadow.innerHTML = `<style>${STYLE}</style><div></div>`
+    this.roller = createDiceRoller(shadow.querySelector('div')!, {
+      dice: this.getDice(),
+      onHandThrow: descriptor => this.throwAndReport(descriptor),
+    })
+    this.updateCamera()
+
+    this.roller.on('rollStart', ({ seed, dice }) => this.emit('roll-start', { seed, dice }))
+    this.roller.on('dieSettled', detail => this.emit('die-settled', detail))
+    this.roller.on('rollComplete', ({ result }) => this.emit('roll-complete', this.getRollResult(result)))
+
+    this.throwAndReport()
+  }
+
+  disconnectedCallback() {
+    this.roller?.dispose()
+    this.roller = undefined
+  }
+
+  attributeChangedCallback(name: string) {
+    if (!this.roller)
+      return
+    if (name === 'camera-type')
+      this.updateCamera()
+    else if (name === 'dice' || name === 'number-of-dice' || name === 'notation')
+      this.roller.setConfig({ dice: this.getDice() })
+  }
+
+  /**
+   * Throws the dice, by hand if `descriptor` is given. Resolves once simulated, before the dice
+   * land, or with undefined if another throw took over first. Rejects with a `SimulationError`
+   * if the throw could not be simulated.
+   */
+  async throw(descriptor?: ThrowDescriptor): Promise<DiceRollResult | undefined> {
+    const result = await this.roller?.roll({
+      seed: this.getAttribute('seed') || undefined,
+      throw: descriptor,
+      desiredRolls: this.getDesiredRolls(),
+    })
+    return result && this.getRollResult(result)
+  }
+
+  /** For throws nobody waits for, where a failure would go unnoticed otherwise */
+  private throwAndReport(descriptor?: ThrowDescriptor) {
+    this.throw(descriptor).catch(error => console.error('Could not simulate the throw:', error))
+  }
+
+  private getRollResult({ rollResult, requestedSeed, outcomes }: SimulationResult): DiceRollResult {
+    const node = this.getNotation()
+    return {
+      rollResult,
+      seed: requestedSeed,
+      outcomes,
+      notation: node && this.evaluateNotation(node, rollResult, requestedSeed),
+    }
+  }
+
+  private evaluateNotation(node: NotationNode, rollResult: number[], seed: string): NotationResult | undefined {
+    try {
+      // Rerolls and explosions are not thrown physically, keep them reproducible from the seed
+      return evaluateNotation(node, rollResult, seedrandom(`${seed}:notation`))
+    }
+    catch (error) {
+      // Divided by zero, only known once the dice have landed
+      if (!(error instanceof NotationError))
+        throw error
+      console.warn(`Could not evaluate notation "${this.getAttribute('notation')}": ${error.message}`)
+    }
+  }
+
+  private emit<K extends keyof DiceRollerElementEventMap>(type: K, detail: DiceRollerElementEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }))
+  }
+
+  private getNotation(): NotationNode | undefined {
+    const notation = this.getAttribute('notation')
+    if (!notation)
+      return
+    try {
+      const node = parseNotation(notation)
+      const diceCount = getNotationDice(node).length
+      if (diceCount >= 1 && diceCount <= MAX_DICE)
+        return node
+      console.warn(`Notation "${notation}" needs ${diceCount} dice, expected 1 to ${MAX_DICE}`)
+    }
+    catch (error) {
+      if (!(error instanceof NotationError))
+        throw error
+      console.warn(`Invalid notation "${notation}": ${error.message}`)
+    }
+  }
+
+  /** From the notation if there is one, then `dice`, then `number-of-dice` d6 */
+  private getDice(): DieType[] {
+    const node = this.getNotation()
+    if (node)
+      return getNotationDice(node)
+    const dice = this.getAttribute('dice')?.split(',')
+    if (dice && dice.length >= 1 && dice.length <= MAX_DICE && dice.every(isDieType))
+      return dice
+    const count = Number.parseInt(this.getAttribute('number-of-dice') ?? '')
+    return Array.from({ length: count >= 1 && count <= MAX_DICE ? count : 2 }, () => 'd6')
+  }
+
+  /** Only for magic rolls, and only if every value is on a face of its die */
+  private getDesiredRolls(): number[] | undefined {
+    const magic = this.getAttribute('magic')
+    if (magic === null || magic === 'false')
+      return
+    try {
+      const rolls = JSON.parse(this.getAttribute('desired-rolls') ?? '')
+      const dice = this.getDice()
+      if (Array.isArray(rolls) && rolls.length === dice.length && rolls.every((r, i) => getFaceValues(getDieDefinition(dice[i])).includes(r)))
+        return rolls
+    }
+    catch {
+      // Invalid JSON, not a magic roll then
+    }
+    console.warn('Magic roll without valid desired-rolls, throwing normally')
+  }
+
+  private updateCamera() {
+    const type = this.getAttribute('camera-type')
+    if (this.roller && CAMERA_TYPES.includes(type as CameraType))
+      this.roller.setConfig({ camera: { ...this.roller.getConfig().camera, type: type as CameraType } })
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'dice-roller': DiceRollerElement
+  }
+}
+
+/** Registers `<dice-roller>`, unless it already is */
+export function defineDiceRollerElement() {
+  if (!customElements.get('dice-roller'))
+    customElements.define('dice-roller', DiceRollerElement)
+}
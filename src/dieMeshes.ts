@@ -0,0 +1,331 @@
+import * as THREE from 'three'
+import * as BufferGeometryUtils from './BufferGeometryUtils'
+import type { DieDefinition, DieFace, DieType, FaceTexture } from './dice'
+import { getDieDefinition, isStandardDieType } from './dice'
+import type { DieGeometryKey } from './diceGeometry'
+import { BOX_FACES, BOX_FACE_PIPS, getDieGeometry, getFaceFrame, isDieGeometry } from './diceGeometry'
+import type { DieTheme, PipSettings } from './theme'
+import { DEFAULT_THEME, getLabelMaterial, getPipMaterial, getSurfaceMaterial } from './theme'
+
+/**
+ * Meshes of the dice. Each type is built once in the default theme and cloned per die, see
+ * `createDieMesh`; the parts of a die are tagged with their role in `userData.role`, so a theme
+ * knows which material goes where. A d6 comes in several levels of detail, the polyhedra are
+ * low poly enough as they are. The geometry itself comes from `diceGeometry.ts`.
+ */
+
+/** Dice meshes keyed by die type and, for a d6, edge radius and level of detail */
+export type DieMeshCache = Map<string, THREE.Group>
+
+// Subdivisions along an edge of a carved d6
+const SEGMENTS = 40
+
+// Subdivisions along an edge of a d6 with flat faces per level of detail
+const BOX_SEGMENTS = [12, 8, 4]
+
+/** Levels of detail of a die, level 0 is the most detailed */
+export const DIE_LEVELS = BOX_SEGMENTS.length
+
+/** A die of `type` in `theme`, built from the template in `cache` */
+export function createDieMesh(type: DieType, theme: DieTheme, pips: PipSettings, cache: DieMeshCache, level = 0) {
+  const mesh = getDiceMesh(type, theme.edgeRadius, pips, level, cache).clone()
+  mesh.traverse((child) => {
+    if (!(child instanceof THREE.Mesh))
+      return
+    if (child.userData.role === 'surface') {
+      // Custom faces have a material per face, each with its own texture
+      child.material = Array.isArray(child.material)
+        ? child.material.map(material => getSurfaceMaterial(theme, material.map))
+        : getSurfaceMaterial(theme, undefined, child.material.normalMap ?? undefined)
+    }
+    else if (child.userData.role === 'pips') {
+      child.material = getPipMaterial(theme)
+    }
+    else if (child.userData.role === 'label') {
+      child.material = getLabelMaterial(theme, child.material.map)
+    }
+  })
+
+  return mesh
+}
+
+/**
+ * Geometry the dice of `edgeRadius` are made of with `pips`, at every level of detail, e.g. to
+ * build ahead of time with `serializeDieGeometries`
+ */
+export function getDieGeometryKeys(edgeRadius: number, pips: PipSettings): DieGeometryKey[] {
+  const { notchRadius, notchDepth } = pips
+  return [
+    { shape: 'carved-box', edgeRadius, notchRadius, notchDepth, segments: SEGMENTS },
+    { shape: 'box-inner', edgeRadius },
+    { shape: 'pip-discs', notchRadius },
+    ...BOX_SEGMENTS.flatMap((segments): DieGeometryKey[] => [
+      { shape: 'box', edgeRadius, segments },
+      { shape: 'painted-box', edgeRadius, segments },
+    ]),
+    { shape: 'd4' },
+    { shape: 'd8' },
+    { shape: 'd10' },
+    { shape: 'd12' },
+    { shape: 'd20' },
+  ]
+}
+
+/** Disposes the templates in `cache`, e.g. after the pips changed, but not shared geometry */
+export function disposeDieMeshes(cache: DieMeshCache) {
+  cache.forEach(diceMesh => diceMesh.traverse((child) => {
+    if (!(child instanceof THREE.Mesh))
+      return
+    if (!isDieGeometry(child.geometry))
+      child.geometry.dispose()
+    // Pip normal maps, custom faces and number decals are drawn per template
+    if (Array.isArray(child.material))
+      child.material.forEach(material => material.map?.dispose())
+    else if (child.userData.role === 'label')
+      child.material.map.dispose()
+    else if (child.material instanceof THREE.MeshStandardMaterial)
+      child.material.normalMap?.dispose()
+  }))
+  cache.clear()
+}
+
+function getDiceMesh(type: DieType, edgeRadius: number, pips: PipSettings, level: number, cache: DieMeshCache) {
+  const definition = getDieDefinition(type)
+  const key = definition.shape === 'd6' ? `${type}:${edgeRadius}:${level}` : type
+  let diceMesh = cache.get(key)
+  if (!diceMesh) {
+    if (!isStandardDieType(type))
+      diceMesh = createCustomDieMesh(definition, edgeRadius, level)
+    else if (type !== 'd6')
+      diceMesh = createPolyhedronMesh(definition)
+    // Carved pips are too small to make out further away
+    else if (pips.style === 'carved' && level === 0)
+      diceMesh = createDiceMesh(edgeRadius, pips)
+    else
+      diceMesh = createPaintedDiceMesh(edgeRadius, pips, level)
+    cache.set(key, diceMesh)
+  }
+  return diceMesh
+}
+
+function createDiceMesh(edgeRadius: number, pips: PipSettings) {
+  const diceMesh = new THREE.Group()
+  const { notchRadius, notchDepth } = pips
+  const innerMesh = new THREE.Mesh(getDieGeometry({ shape: 'box-inner', edgeRadius }), getPipMaterial(DEFAULT_THEME))
+  innerMesh.userData.role = 'pips'
+  const outerMesh = new THREE.Mesh(getDieGeometry({ shape: 'carved-box', edgeRadius, notchRadius, notchDepth, segments: SEGMENTS }), getSurfaceMaterial(DEFAULT_THEME))
+  outerMesh.userData.role = 'surface'
+  outerMesh.castShadow = true
+  diceMesh.add(innerMesh, outerMesh)
+
+  return diceMesh
+}
+
+/** A d6 with its pips painted on and shaded by a normal map, see `PipStyle` */
+function createPaintedDiceMesh(edgeRadius: number, pips: PipSettings, level: number) {
+  const geometry = getDieGeometry({ shape: 'painted-box', edgeRadius, segments: BOX_SEGMENTS[level] })
+
+  const diceMesh = new THREE.Group()
+  const outerMesh = new THREE.Mesh(geometry, getSurfaceMaterial(DEFAULT_THEME, undefined, createPipNormalMap(pips)))
+  outerMesh.userData.role = 'surface'
+  outerMesh.castShadow = true
+  const pipMesh = new THREE.Mesh(getDieGeometry({ shape: 'pip-discs', notchRadius: pips.notchRadius }), getPipMaterial(DEFAULT_THEME))
+  pipMesh.userData.role = 'pips'
+  diceMesh.add(outerMesh, pipMesh)
+
+  return diceMesh
+}
+
+function createPolyhedronMesh(definition: DieDefinition) {
+  const diceMesh = new THREE.Group()
+  const outerMesh = new THREE.Mesh(getPolyhedronGeometry(definition), getSurfaceMaterial(DEFAULT_THEME))
+  outerMesh.userData.role = 'surface'
+  outerMesh.castShadow = true
+  diceMesh.add(outerMesh, ...createFaceDecals(definition))
+
+  return diceMesh
+}
+
+/** A die with a texture per face, mapped onto the faces through the UVs of the geometry */
+function createCustomDieMesh(definition: DieDefinition, edgeRadius: number, level: number) {
+  const isBox = definition.shape === 'd6'
+  const faces = isBox
+    ? BOX_FACES.map(([normal]) => definition.faces.find(face => face.normal.map(Math.round).join(',') === normal.join(','))!)
+    : definition.faces
+  const fills = faces.map((face) => {
+    const { radius, inradius } = getFaceFrame(definition, face)
+    return isBox ? 0.8 : inradius / radius
+  })
+  // Faces that look the same, like the two blank ones of a dF, share a material
+  const looks = faces.map((face, i) => JSON.stringify([getFaceTexture(face), fills[i]]))
+  const distinctLooks = [...new Set(looks)]
+  const materials = distinctLooks.map((look) => {
+    const i = looks.indexOf(look)
+    return getSurfaceMaterial(DEFAULT_THEME, createFaceTexture(faces[i], fills[i]))
+  })
+
+  // A geometry group per face, those sharing a material are merged so they are drawn at once
+  let geometry = isBox ? getDieGeometry({ shape: 'box', edgeRadius, segments: BOX_SEGMENTS[level] }) : getPolyhedronGeometry(definition)
+  if (distinctLooks.length < faces.length) {
+    geometry = geometry.clone()
+    geometry.groups.forEach((group, face) => group.materialIndex = distinctLooks.indexOf(looks[face]))
+    geometry = BufferGeometryUtils.mergeGroups(geometry)
+  }
+
+  const diceMesh = new THREE.Group()
+  const outerMesh = new THREE.Mesh(geometry, materials)
+  outerMesh.userData.role = 'surface'
+  outerMesh.castShadow = true
+  diceMesh.add(outerMesh)
+
+  return diceMesh
+}
+
+/** Custom dice keep the vertices and face order of their shape, so they share its geometry */
+function getPolyhedronGeometry({ shape }: DieDefinition) {
+  return getDieGeometry({ shape: shape as Exclude<typeof shape, 'd6'> })
+}
+
+/** What is drawn on a custom face, its label (or value) as text unless it has its own texture */
+function getFaceTexture(face: DieFace): FaceTexture {
+  return face.texture ?? { type: 'text', source: face.label ?? String(face.value) }
+}
+
+/**
+ * Draws the texture of a custom face, see `getFaceTexture`. `fill` is the part of the texture
+ * that is safely inside the face.
+ */
+function createFaceTexture(face: DieFace, fill: number) {
+  const textureSize = 256
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = textureSize
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#EEEEEE'
+  ctx.fillRect(0, 0, textureSize, textureSize)
+  const map = new THREE.CanvasTexture(canvas)
+
+  const { type, source } = getFaceTexture(face)
+  const size = textureSize * fill
+  if (type === 'text' || type === 'emoji') {
+    ctx.fillStyle = '#000000'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.font = type === 'emoji' ? `${size * 0.7}px sans-serif` : `bold ${size * 0.6}px sans-serif`
+    ctx.fillText(source, textureSize / 2, textureSize / 2, size)
+  }
+  else {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.addEventListener('load', () => {
+      const scale = size / Math.max(image.width, image.height)
+      const [width, height] = [image.width * scale, image.height * scale]
+      ctx.drawImage(image, (textureSize - width) / 2, (textureSize - height) / 2, width, height)
+      map.needsUpdate = true
+    })
+    image.addEventListener('error', () => console.error(`Could not load the face image ${source}`))
+    image.src = type === 'svg' ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}` : source
+  }
+
+  return map
+}
+
+/**
+ * Normal map shading the faces as if the pips were carved like in `createBoxGeometry`, with a
+ * cell per face as laid out by `setPipAtlasUVs`.
+ */
+function createPipNormalMap({ notchRadius, notchDepth }: PipSettings) {
+  const cellSize = 128
+  const canvas = document.createElement('canvas')
+  canvas.width = 3 * cellSize
+  canvas.height = 2 * cellSize
+  const ctx = canvas.getContext('2d')!
+  const image = ctx.createImageData(canvas.width, canvas.height)
+
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      // The texture is flipped, the top row of cells is the second one
+      const face = Math.floor(x / cellSize) + 3 * (1 - Math.floor(y / cellSize))
+      const u = (x % cellSize + 0.5) / cellSize - 0.5
+      const v = 0.5 - (y % cellSize + 0.5) / cellSize
+      // Slope of the surface; a carved pip is as deep as the square of the notch wave
+      let [du, dv] = [0, 0]
+      BOX_FACE_PIPS[face].forEach(([pipU, pipV]) => {
+        const distance = Math.hypot(u - pipU, v - pipV)
+        if (distance === 0 || distance >= notchRadius)
+          return
+        const angle = Math.PI * distance / notchRadius
+        const slope = 2 * notchDepth ** 2 * (Math.cos(angle) + 1) * Math.sin(angle) * Math.PI / notchRadius
+        du += slope * (u - pipU) / distance
+        dv += slope * (v - pipV) / distance
+      })
+      const length = Math.hypot(du, dv, 1)
+      const i = 4 * (y * canvas.width + x)
+      image.data[i] = (1 - du / length) * 127.5
+      image.data[i + 1] = (1 - dv / length) * 127.5
+      image.data[i + 2] = (1 + 1 / length) * 127.5
+      image.data[i + 3] = 255
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+
+  return new THREE.CanvasTexture(canvas)
+}
+
+/**
+ * One transparent textured plane per face, floating just above it, with the face number
+ * drawn in the middle. A d4 instead shows the value of each corner next to that corner,
+ * so the number on top is the same on all three visible faces.
+ */
+function createFaceDecals(definition: DieDefinition) {
+  const textureSize = 128
+
+  return definition.faces.map((face) => {
+    const { center, normal, corners, radius, inradius, xAxis, yAxis } = getFaceFrame(definition, face)
+    const toCanvas = (point: THREE.Vector3) => {
+      const offset = point.clone().sub(center)
+      return [
+        textureSize / 2 * (1 + offset.dot(xAxis) / radius),
+        textureSize / 2 * (1 - offset.dot(yAxis) / radius),
+      ] as const
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = textureSize
+    const ctx = canvas.getContext('2d')!
+    // White, tinted with the pip color by the material
+    ctx.fillStyle = '#FFFFFF'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+
+    const drawLabel = (value: number, [x, y]: readonly [number, number], rotation: number, size: number) => {
+      ctx.save()
+      ctx.translate(x, y)
+      ctx.rotate(rotation)
+      ctx.font = `bold ${size}px sans-serif`
+      // 6 and 9 look the same upside down
+      ctx.fillText(value === 6 || value === 9 ? `${value}.` : `${value}`, 0, 0)
+      ctx.restore()
+    }
+
+    if (definition.readDown) {
+      corners.forEach((corner, i) => {
+        const value = definition.faces.find(other => !other.vertices.includes(face.vertices[i]))!.value
+        const [x, y] = toCanvas(center.clone().lerp(corner, 0.55))
+        drawLabel(value, [x, y], Math.atan2(x - textureSize / 2, textureSize / 2 - y), textureSize / 4)
+      })
+    }
+    else {
+      drawLabel(face.value, [textureSize / 2, textureSize / 2], 0, textureSize * inradius / radius * 0.8)
+    }
+
+    const decal = new THREE.Mesh(
+      new THREE.PlaneGeometry(2 * radius, 2 * radius),
+      getLabelMaterial(DEFAULT_THEME, new THREE.CanvasTexture(canvas)),
+    )
+    decal.userData.role = 'label'
+    decal.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(xAxis, yAxis, normal))
+    decal.position.copy(center).addScaledVector(normal, 0.002)
+
+    return decal
+  })
+}
@@ -0,0 +1,7 @@
+import { defineDiceRollerElement } from './diceRollerElement'
+
+/**
+ * Entry for plain HTML pages, registers `<dice-roller>` when loaded.
+ */
+
+defineDiceRollerElement()
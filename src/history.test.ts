@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { HistoryEntry } from './history'
+import { HISTORY_STORAGE_KEY, addHistoryEntry, loadHistory } from './history'
+
+const entry: HistoryEntry = {
+  timestamp: 1700000000000,
+  seed: 'abc',
+  dice: ['d6', 'd20'],
+  notation: 'd6+d20',
+  rollResult: [4, 17],
+  text: '4+17',
+  throw: { origin: [0, 4, 0], velocity: [2, 0, -1], angularVelocity: [0, 3, 0] },
+  tableRules: { cocked: 'nudge', outOfBounds: 'reroll-die', timedOut: 'nearest' },
+}
+
+describe('history', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the entries added to it', () => {
+    addHistoryEntry(entry)
+    expect(addHistoryEntry({ ...entry, seed: 'def' })).toEqual([entry, { ...entry, seed: 'def' }])
+    expect(loadHistory()).toEqual([entry, { ...entry, seed: 'def' }])
+  })
+
+  it('drops stored entries missing fields or with invalid ones', () => {
+    const invalid = [
+      null,
+      'entry',
+      { ...entry, seed: undefined },
+      { ...entry, dice: 'd6' },
+      { ...entry, rollResult: [4] },
+      { ...entry, rollResult: [4, '17'] },
+      { ...entry, text: undefined },
+      { ...entry, notation: 6 },
+      { ...entry, desiredRolls: [6, null] },
+      { ...entry, throw: { origin: [0, 4, 0], velocity: [2, 0] } },
+      { ...entry, tableRules: { ...entry.tableRules, cocked: 'ignore' } },
+      { ...entry, physics: { gravity: 'down' } },
+      { ...entry, tray: null },
+    ]
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify([entry, ...invalid, { ...entry, dice: ['d6', 'bone'] }]))
+    expect(loadHistory()).toEqual([entry, { ...entry, dice: ['d6', 'bone'] }])
+  })
+
+  it('starts over when the stored history is not a list', () => {
+    localStorage.setItem(HISTORY_STORAGE_KEY, '{')
+    expect(loadHistory()).toEqual([])
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify({ entries: [entry] }))
+    expect(loadHistory()).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import type { DieType, StandardDieType } from './dice'
+import { getDieDefinition, isStandardDieType } from './dice'
+import type { PhysicsConfig } from './physics'
+import { isValidPhysics } from './physics'
+import type { TableRules, ThrowDescriptor } from './simulation'
+import { COCKED_RULES, TABLE_RULES } from './simulation'
+import type { FaceStatistics } from './stats'
+import type { TrayConfig } from './tray'
+import { isValidTray } from './tray'
+import { computeFaceStatistics } from './stats'
+
+/**
+ * Roll history persisted in `localStorage`, next to the pane state.
+ */
+
+export const HISTORY_STORAGE_KEY = 'ROLL_HISTORY'
+const MAX_HISTORY_LENGTH = 500
+
+export interface HistoryEntry {
+  /** Milliseconds since the epoch */
+  timestamp: number
+  seed: string
+  dice: DieType[]
+  notation?: string
+  rollResult: number[]
+  /** The result as it was displayed, e.g. `6+3` or the notation breakdown */
+  text: string
+  /** Set for magic rolls, which are kept in the history but left out of the statistics */
+  desiredRolls?: number[]
+  /** Set for throws made by hand */
+  throw?: ThrowDescriptor
+  tableRules?: TableRules
+  physics?: PhysicsConfig
+  tray?: TrayConfig
+}
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const history = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]')
+    // Drops entries that are corrupt or from an older shape, keeping the rest
+    return Array.isArray(history) ? history.filter(isValidHistoryEntry) : []
+  }
+  catch {
+    // Corrupt history, start over
+    return []
+  }
+}
+
+/** Appends `entry`, dropping the oldest entries beyond the limit, and returns the new history */
+export function addHistoryEntry(entry: HistoryEntry): HistoryEntry[] {
+  const history = [...loadHistory(), entry].slice(-MAX_HISTORY_LENGTH)
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+  return history
+}
+
+export function clearHistory() {
+  localStorage.removeItem(HISTORY_STORAGE_KEY)
+}
+
+/** Dice are only checked to be names, custom dice may not be defined yet when the history loads */
+function isValidHistoryEntry(entry: HistoryEntry) {
+  const isNumbers = (values: unknown) => Array.isArray(values) && values.every(Number.isFinite)
+  const isVector = (vector: unknown) => isNumbers(vector) && (vector as number[]).length === 3
+  const isThrow = (descriptor: ThrowDescriptor) => typeof descriptor === 'object' && descriptor !== null
+    && [descriptor.origin, descriptor.velocity, descriptor.angularVelocity].every(isVector)
+  const isTableRules = (rules: TableRules) => typeof rules === 'object' && rules !== null
+    && COCKED_RULES.includes(rules.cocked)
+    && TABLE_RULES.includes(rules.outOfBounds) && TABLE_RULES.includes(rules.timedOut)
+  return typeof entry === 'object' && entry !== null
+    && Number.isFinite(entry.timestamp)
+    && typeof entry.seed === 'string'
+    && Array.isArray(entry.dice) && entry.dice.every(type => typeof type === 'string')
+    && isNumbers(entry.rollResult) && entry.rollResult.length === entry.dice.length
+    && typeof entry.text === 'string'
+    && (entry.notation === undefined || typeof entry.notation === 'string')
+    && (entry.desiredRolls === undefined || isNumbers(entry.desiredRolls))
+    && (entry.throw === undefined || isThrow(entry.throw))
+    && (entry.tableRules === undefined || isTableRules(entry.tableRules))
+    && (entry.physics === undefined || isValidPhysics(entry.physics))
+    && (entry.tray === undefined || isValidTray(entry.tray))
+}
+
+/**
+ * Face statistics per die type over all non-magic rolls, in roll order. Only standard dice,
+ * custom dice can have several faces with the same value.
+ */
+export function computeHistoryStatistics(history: HistoryEntry[]) {
+  const faces = new Map<StandardDieType, number[]>()
+  history
+    .filter(entry => !entry.desiredRolls)
+    .forEach(entry => entry.dice.forEach((type, i) => {
+      if (!isStandardDieType(type))
+        return
+      if (!faces.has(type))
+        faces.set(type, [])
+      faces.get(type)!.push(entry.rollResult[i])
+    }))
+
+  const statistics = new Map<StandardDieType, FaceStatistics>()
+  faces.forEach((values, type) => statistics.set(type, computeFaceStatistics(values, getDieDefinition(type).sides)))
+  return statistics
+}
@@ -0,0 +1,59 @@
+import type { HistoryEntry } from './history'
+import { computeHistoryStatistics } from './history'
+import type { Fairness } from './stats'
+
+const FAIRNESS_LABELS: Record<Fairness, string> = {
+  'fair': 'fair',
+  'suspicious': 'suspicious',
+  'biased': 'likely biased',
+  'insufficient-data': 'not enough rolls',
+}
+
+/**
+ * Renders the roll list (newest first) and per die type statistics into `container`.
+ * `onSelect` is called with the entry the user clicked on.
+ */
+export function renderHistoryPanel(container: Element, history: HistoryEntry[], onSelect: (entry: HistoryEntry) => void) {
+  const list = container.querySelector('.history-list')!
+  const statistics = container.querySelector('.history-stats')!
+
+  list.replaceChildren(...history.slice().reverse().map((entry) => {
+    const item = document.createElement('li')
+    const button = document.createElement('button')
+    const time = new Date(entry.timestamp).toLocaleTimeString()
+    const dice = entry.notation || entry.dice.join(' ')
+    button.textContent = `${time} ${dice}: ${entry.text}${entry.desiredRolls ? ' ✨' : ''}${entry.throw ? ' ✋' : ''}`
+    button.title = `seed ${entry.seed}, dice ${entry.rollResult.join(', ')}`
+    button.addEventListener('click', () => onSelect(entry))
+    item.append(button)
+    return item
+  }))
+
+  statistics.replaceChildren(...[...computeHistoryStatistics(history)].map(([type, stats]) => {
+    const section = document.createElement('section')
+
+    const title = document.createElement('h3')
+    title.textContent = `${type} · ${stats.count} rolls · ${FAIRNESS_LABELS[stats.fairness]}`
+    title.dataset.fairness = stats.fairness
+
+    const histogram = document.createElement('div')
+    histogram.className = 'histogram'
+    const max = Math.max(...stats.histogram, 1)
+    stats.histogram.forEach((count, i) => {
+      const bar = document.createElement('span')
+      bar.style.height = `${(count / max) * 100}%`
+      bar.title = `${i + 1}: ${count}`
+      histogram.append(bar)
+    })
+
+    const summary = document.createElement('p')
+    summary.textContent = [
+      `mean ${stats.mean.toFixed(2)} (expected ${stats.expectedMean.toFixed(1)})`,
+      `longest streak ${stats.longestStreak.length}× ${stats.longestStreak.face}`,
+      `χ² ${stats.chiSquare.statistic.toFixed(2)}, p = ${stats.chiSquare.pValue.toFixed(3)}`,
+    ].join(' · ')
+
+    section.append(title, histogram, summary)
+    return section
+  }))
+}
@@ -0,0 +1,26 @@
+/**
+ * Library entry, see `createDiceRoller`. The demo in `main.ts` is built on the same API.
+ */
+
+export type { DiceRoller, DiceRollerConfig, DiceRollerEvent, DiceRollerEventMap, DiceRollerListener, DiceRollerOptions, RollOptions } from './diceRoller'
+export { DEFAULT_DICE_ROLLER_CONFIG, createDiceRoller } from './diceRoller'
+export type { CameraMode, CameraSettings, CameraType } from './cameraController'
+export { CAMERA_MODES, CAMERA_TYPES, DEFAULT_CAMERA_SETTINGS } from './cameraController'
+export type { CustomDie, CustomDieType, DieDefinition, DieFace, DieFaceSpec, DieType, FaceTexture, StandardDieType } from './dice'
+export { CUSTOM_DICE, CustomDieError, DIE_TYPES, STANDARD_DIE_TYPES, defineCustomDie, getDieDefinition, getFaceLabel, getFaceValues, isDieType } from './dice'
+export type { DieGeometryAssetHeader, DieGeometryKey, DieGeometryShape } from './diceGeometry'
+export { DIE_GEOMETRY_VERSION, DieGeometryError, getDieGeometry, loadDieGeometries, loadDieGeometryAsset, serializeDieGeometries } from './diceGeometry'
+export { getDieGeometryKeys } from './dieMeshes'
+export type { PhysicsConfig, PhysicsPreset } from './physics'
+export { DEFAULT_PHYSICS, PHYSICS_PRESETS, PHYSICS_PRESET_NAMES } from './physics'
+export type { DieOutcome, MagicThrowResult, SimulationResult, TableRule, TableRules, ThrowDescriptor } from './simulation'
+export { MAX_DICE, parseThrow, serializeThrow, verifyRoll } from './simulation'
+export { SimulationError } from './simulationClient'
+export type { Pose, SimulationTrack } from './simulationTrack'
+export { decimateTrack, getPose, getRestFrame, interpolatePose } from './simulationTrack'
+export type { DieMaterial, DieTheme, PipSettings, PipStyle, ThemeName } from './theme'
+export { DEFAULT_PIPS, DEFAULT_THEME, DIE_MATERIALS, PIP_STYLES, THEMES, THEME_NAMES } from './theme'
+export type { SurfaceMaterial, TrayConfig, TrayTexture } from './tray'
+export { DEFAULT_TRAY, TRAY_TEXTURES } from './tray'
+export type { DiceRollResult, DiceRollerElementEventMap } from './diceRollerElement'
+export { DiceRollerElement, defineDiceRollerElement } from './diceRollerElement'
@@ -1,92 +1,173 @@
-import * as CANNON from 'cannon-es'
-import * as THREE from 'three'
 import seedrandom from 'seedrandom'
 import { clamp } from 'three/src/math/MathUtils'
 import type { FolderApi } from 'tweakpane'
 import { Pane } from 'tweakpane'
-import * as BufferGeometryUtils from './BufferGeometryUtils'
-
-const canvasEl = document.querySelector('#canvas')!
-const simulationResult = document.querySelector('#simulation-result')!
-let renderId: symbol
-
-let renderer: THREE.WebGLRenderer,
-  scene: THREE.Scene,
-  camera: THREE.Camera,
-  diceMesh: THREE.Group,
-  simulationWorld: CANNON.World
+import type { CameraType } from './cameraController'
+import { CAMERA_MODES, CAMERA_TYPES, DEFAULT_CAMERA_SETTINGS } from './cameraController'
+import type { DieType } from './dice'
+import { DIE_TYPES, getDieDefinition, getFaceLabel, getFaceValues, isDieType, isStandardDieType } from './dice'
+import { loadDieGeometryAsset } from './diceGeometry'
+import type { DiceRoller, DiceRollerConfig, DiceRollerEventMap } from './diceRoller'
+import { createDiceRoller } from './diceRoller'
+import type { NotationNode } from './notation'
+import type { HistoryEntry } from './history'
+import { addHistoryEntry, clearHistory, loadHistory } from './history'
+import { renderHistoryPanel } from './historyPanel'
+import type { PhysicsConfig, PhysicsPreset } from './physics'
+import { DEFAULT_PHYSICS, PHYSICS_PRESETS, PHYSICS_PRESET_NAMES, PHYSICS_PRESET_SURFACES, getPhysicsPreset, parsePhysics, serializePhysics } from './physics'
+import type { DieTheme, ThemeName } from './theme'
+import { DEFAULT_PIPS, DEFAULT_THEME, DIE_MATERIALS, PIP_STYLES, THEMES, THEME_NAMES, getThemeName } from './theme'
+import type { TrayConfig } from './tray'
+import { DEFAULT_TRAY, TRAY_TEXTURES, parseTray } from './tray'
+import { NotationError, evaluateNotation, getNotationDice, parseNotation } from './notation'
+import type { FrameRecorder, Recording } from './recorder'
+import { startRecording } from './recorder'
+import type { RoomConnection } from './room'
+import { joinRoom } from './room'
+import type { Player, RollConfig, RollEntry } from './roomProtocol'
+import { DEFAULT_ROOM_PORT } from './roomProtocol'
+import type { Replay } from './replay'
+import { REPLAY_FILE_EXTENSION, ReplayError, createReplay, decodeReplay, encodeReplay } from './replay'
+import type { DieOutcome, SimulationResult, TableRule, TableRules, ThrowDescriptor } from './simulation'
+import { COCKED_RULES, DEFAULT_SIMULATION_CONFIG, MAX_DICE, TABLE_RULES, parseThrow, serializeThrow } from './simulation'
+
+const rollerEl = document.querySelector<HTMLElement>('#dice-roller')!
+const simulationResult = document.querySelector<HTMLElement>('#simulation-result')!
+const historyEl = document.querySelector('#history')!
+let roller: DiceRoller
 
 const pane = new Pane()
+let diceFolder: FolderApi
+let magicFolder: FolderApi
+let themesFolder: FolderApi | undefined
+
+interface DieAppearance extends DieTheme {
+  theme: ThemeName | 'custom'
+}
 
 const params = {
-  numberOfDice: 2,
+  dice: ['d6', 'd6'] as DieType[],
+  notation: '',
   desiredRolls: [6, 3],
   magic: false,
+  tableRules: { ...DEFAULT_SIMULATION_CONFIG.tableRules },
+  physics: { ...DEFAULT_PHYSICS },
+  /** Preset `physics` is equal to, or `custom` */
+  physicsPreset: 'default' as PhysicsPreset | 'custom',
+  tray: structuredClone(DEFAULT_TRAY),
+  /** Per die, `theme` names the theme the rest is equal to */
+  dieThemes: [] as DieAppearance[],
+  pips: { ...DEFAULT_PIPS },
   seed: '',
-  storeFrames: false,
+  /** Last hand throw, see `serializeThrow` */
+  throw: '',
+  record: false,
   renderFixedFrames: false,
-  cameraType: 'perspective' as 'orthographic' | 'perspective',
+  camera: structuredClone(DEFAULT_CAMERA_SETTINGS),
+  room: '',
+  roomServer: `ws://${window.location.hostname || 'localhost'}:${DEFAULT_ROOM_PORT}`,
+  playerName: 'Player',
 }
 
-// Fixed constants (not configurable)
-const SEGMENTS = 40
-const EDGE_RADIUS = 0.07
-const NOTCH_RADIUS = 0.12
-const NOTCH_DEPTH = 0.1
-const BOX_WIDTH = 8
-const BOX_HEIGHT = 8
-
-const meshArray: THREE.Group[] = []
-const simulationDiceArray: CANNON.Body[] = []
-const wallBodies: CANNON.Body[] = []
+const diceCount = { numberOfDice: 0 }
+let lastReplay: Replay | undefined
+let lastRecording: Recording | undefined
+let recorder: FrameRecorder | undefined
+let roomConnection: RoomConnection | undefined
+let updateRoomUI: (players: Player[]) => void = () => {}
 
 // Parse query parameters on page load
 parseQueryParams()
 
-initPhysics()
-initScene()
-initUI()
-
-const storedFrames: { duration?: number, frame: string }[] = []
-;(window as any).storedFrames = storedFrames
-;(window as any).params = params
-;(window as any).throwDice = throwDice
-
-throwDice(params.seed || undefined)
+// Geometry of the dice built by `pnpm build:dice-assets`, otherwise it is built on the spot
+loadDieGeometryAsset(`${import.meta.env.BASE_URL}dice-geometry.bin`).then(() => {
+  initRoller()
+  initUI()
+  initReplayDrop()
+  initHistory()
 
-window.addEventListener('resize', updateSceneSize)
+  if (params.room)
+    connectRoom()
+  else
+    throwDice(params.seed || undefined, true, parseThrow(params.throw))
+})
 
 function parseQueryParams() {
   const urlParams = new URLSearchParams(window.location.search)
 
-  if (urlParams.has('numberOfDice')) {
+  if (urlParams.has('dice')) {
+    const dice = urlParams.get('dice')!.split(',')
+    if (dice.length >= 1 && dice.length <= MAX_DICE && dice.every(isDieType))
+      params.dice = dice
+  }
+  else if (urlParams.has('numberOfDice')) {
+    // Links from before mixed dice were supported only rolled d6
     const value = Number.parseInt(urlParams.get('numberOfDice')!)
-    if (!Number.isNaN(value) && value >= 1 && value <= 10)
-      params.numberOfDice = value
+    if (!Number.isNaN(value) && value >= 1 && value <= MAX_DICE)
+      params.dice = Array.from({ length: value }, () => 'd6')
+  }
+
+  if (urlParams.has('notation')) {
+    const notation = urlParams.get('notation')!
+    const node = parseDiceNotation(notation)
+    if (node) {
+      params.notation = notation
+      params.dice = getNotationDice(node)
+    }
   }
 
   if (urlParams.has('magic'))
     params.magic = urlParams.get('magic') === 'true'
 
+  if (COCKED_RULES.includes(urlParams.get('cocked') as TableRules['cocked']))
+    params.tableRules.cocked = urlParams.get('cocked') as TableRules['cocked']
+  if (TABLE_RULES.includes(urlParams.get('outOfBounds') as TableRule))
+    params.tableRules.outOfBounds = urlParams.get('outOfBounds') as TableRule
+  if (TABLE_RULES.includes(urlParams.get('timedOut') as TableRule))
+    params.tableRules.timedOut = urlParams.get('timedOut') as TableRule
+
+  if (urlParams.has('physics')) {
+    const physics = parsePhysics(urlParams.get('physics')!)
+    if (physics) {
+      params.physics = physics
+      params.physicsPreset = getPhysicsPreset(physics) ?? 'custom'
+    }
+  }
+
+  if (urlParams.has('tray')) {
+    const tray = parseTray(urlParams.get('tray')!)
+    if (tray)
+      params.tray = tray
+  }
+
   if (urlParams.has('seed'))
     params.seed = urlParams.get('seed') || ''
 
-  if (urlParams.has('storeFrames'))
-    params.storeFrames = urlParams.get('storeFrames') === 'true'
+  if (urlParams.has('throw') && parseThrow(urlParams.get('throw')!))
+    params.throw = urlParams.get('throw')!
+
+  if (urlParams.has('record'))
+    params.record = urlParams.get('record') === 'true'
 
   if (urlParams.has('renderFixedFrames'))
     params.renderFixedFrames = urlParams.get('renderFixedFrames') === 'true'
 
   if (urlParams.has('cameraType')) {
     const cameraType = urlParams.get('cameraType')
-    if (cameraType === 'perspective' || cameraType === 'orthographic')
-      params.cameraType = cameraType
+    if (CAMERA_TYPES.includes(cameraType as CameraType))
+      params.camera.type = cameraType as CameraType
   }
 
+  if (urlParams.has('room'))
+    params.room = urlParams.get('room') || ''
+
+  if (urlParams.has('roomServer'))
+    params.roomServer = urlParams.get('roomServer') || params.roomServer
+
   if (urlParams.has('desiredRolls')) {
     try {
       const rolls = JSON.parse(urlParams.get('desiredRolls')!)
-      if (Array.isArray(rolls) && rolls.every(r => Number.isInteger(r) && r >= 1 && r <= 6))
+      if (Array.isArray(rolls) && rolls.every((r, i) => getFaceValues(getDieDefinition(params.dice[i] ?? 'd6')).includes(r)))
         params.desiredRolls = rolls
     }
     catch {
@@ -97,786 +178,597 @@ function parseQueryParams() {
 
 function updateURL() {
   const url = new URL(window.location.href)
-  url.searchParams.set('numberOfDice', params.numberOfDice.toString())
+  url.searchParams.delete('numberOfDice')
+  url.searchParams.set('dice', params.dice.join(','))
+  if (params.notation)
+    url.searchParams.set('notation', params.notation)
+  else
+    url.searchParams.delete('notation')
   url.searchParams.set('magic', params.magic.toString())
+  url.searchParams.set('cocked', params.tableRules.cocked)
+  url.searchParams.set('outOfBounds', params.tableRules.outOfBounds)
+  url.searchParams.set('timedOut', params.tableRules.timedOut)
   url.searchParams.set('seed', params.seed)
+  if (getPhysicsPreset(params.physics) === 'default')
+    url.searchParams.delete('physics')
+  else
+    url.searchParams.set('physics', serializePhysics(params.physics))
+  if (JSON.stringify(params.tray) === JSON.stringify(DEFAULT_TRAY))
+    url.searchParams.delete('tray')
+  else
+    url.searchParams.set('tray', JSON.stringify(params.tray))
+  if (params.throw)
+    url.searchParams.set('throw', params.throw)
+  else
+    url.searchParams.delete('throw')
   url.searchParams.set('desiredRolls', JSON.stringify(params.desiredRolls))
-  url.searchParams.set('cameraType', params.cameraType)
+  url.searchParams.set('cameraType', params.camera.type)
+  if (roomConnection)
+    url.searchParams.set('room', roomConnection.room)
+  else
+    url.searchParams.delete('room')
   window.history.replaceState({}, '', url.toString())
 }
 
 function initUI() {
-  let magicFolder: FolderApi
   const folder = pane.addFolder({ title: 'Params' })
-  folder.addBinding(params, 'numberOfDice', {
+  diceCount.numberOfDice = params.dice.length
+
+  folder.addBinding(diceCount, 'numberOfDice', {
     label: 'Number of Dice',
     min: 1,
-    max: 10,
+    max: MAX_DICE,
     step: 1,
   }).on('change', () => {
-    initDice()
-    magicFolder.children.forEach(child => magicFolder.remove(child))
-    params.desiredRolls = simulationDiceArray.map((_, i) => params.desiredRolls[i] ?? 1)
-    params.desiredRolls.forEach((_, i) =>
-      // @ts-expect-error: tweakpane type bug
-      magicFolder.addBinding(params.desiredRolls, `${i}`, {
-        min: 1,
-        max: 6,
-        step: 1,
-      }))
+    // Also fires when the notation below changed the dice and refreshed the pane
+    if (diceCount.numberOfDice === params.dice.length)
+      return
+    params.dice = Array.from({ length: diceCount.numberOfDice }, (_, i) => params.dice[i] ?? 'd6')
+    params.notation = ''
+    pane.refresh()
+    refreshDiceBindings()
   })
 
+  folder.addBinding(params, 'notation', { label: 'Notation' })
+    .on('change', () => {
+      const node = parseDiceNotation(params.notation)
+      if (node)
+        setDice(getNotationDice(node), params.notation)
+    })
+
+  diceFolder = folder.addFolder({ title: 'Dice' })
+
   folder.addBinding(params, 'seed')
 
+  const rulesFolder = folder.addFolder({ title: 'Table Rules', expanded: false })
+  const ruleOptions = (rules: string[]) => ({ options: Object.fromEntries(rules.map(rule => [rule, rule])) })
+  rulesFolder.addBinding(params.tableRules, 'cocked', { label: 'Cocked', ...ruleOptions(COCKED_RULES) })
+  rulesFolder.addBinding(params.tableRules, 'outOfBounds', { label: 'Off the Table', ...ruleOptions(TABLE_RULES) })
+  rulesFolder.addBinding(params.tableRules, 'timedOut', { label: 'Still Rolling', ...ruleOptions(TABLE_RULES) })
+
   folder.addBinding(params, 'magic')
     .on('change', () => {
       magicFolder.hidden = !params.magic
     })
 
   magicFolder = folder.addFolder({ title: 'Magic!' })
-  params.desiredRolls = simulationDiceArray.map(() => 1) // result is 1 by default
-  params.desiredRolls.forEach((_, i) =>
-    // @ts-expect-error: tweakpane type bug
-    magicFolder.addBinding(params.desiredRolls, `${i}`, {
-      min: 1,
-      max: 6,
-      step: 1,
-    }))
+  params.desiredRolls = params.dice.map(() => 1) // result is 1 by default
+  refreshDiceBindings()
   magicFolder.hidden = !params.magic
 
   folder.addButton({ title: 'Throw Dice' })
-    .on('click', () => throwDice(params.seed || undefined))
+    .on('click', () => {
+      if (roomConnection)
+        roomConnection.roll(getRoomRollConfig())
+      else
+        throwDice(params.seed || undefined)
+    })
+
+  folder.addButton({ title: 'Export Replay' })
+    .on('click', downloadReplay)
+
+  folder.addBinding(params, 'record', { label: 'Record' })
+  folder.addBinding(params, 'renderFixedFrames', { label: 'Fixed 60 fps' })
+  folder.addButton({ title: 'Download GIF' })
+    .on('click', () => lastRecording && downloadBlob(lastRecording.gif, 'roll.gif'))
+  folder.addButton({ title: 'Download WebM' })
+    .on('click', () => lastRecording?.webm && downloadBlob(lastRecording.webm, 'roll.webm'))
+
+  const trayFolder = pane.addFolder({ title: 'Tray', expanded: false })
+  trayFolder.addBinding(params.tray, 'width', { label: 'Width', min: 3, max: 30, step: 0.5 })
+  trayFolder.addBinding(params.tray, 'depth', { label: 'Depth', min: 3, max: 30, step: 0.5 })
+  trayFolder.addBinding(params.tray, 'wallHeight', { label: 'Wall Height', min: 0, max: 30, step: 0.5 })
+  trayFolder.addBinding(params.tray, 'showWalls', { label: 'Show Walls' })
+  trayFolder.addBinding(params.tray, 'texture', {
+    label: 'Texture',
+    options: Object.fromEntries(TRAY_TEXTURES.map(texture => [texture, texture])),
+  })
+  const surfaceBindings = (title: string, surface: TrayConfig['floor']) => {
+    const surfaceFolder = trayFolder.addFolder({ title })
+    surfaceFolder.addBinding(surface, 'friction', { label: 'Friction', min: 0, max: 2, step: 0.05 })
+    surfaceFolder.addBinding(surface, 'restitution', { label: 'Restitution', min: 0, max: 1, step: 0.05 })
+  }
+  surfaceBindings('Floor', params.tray.floor)
+  surfaceBindings('Walls', params.tray.walls)
+
+  const physicsFolder = pane.addFolder({ title: 'Physics', expanded: false })
+  physicsFolder.addBinding(params, 'physicsPreset', {
+    label: 'Preset',
+    options: Object.fromEntries([...PHYSICS_PRESET_NAMES, 'custom'].map(preset => [preset, preset])),
+  }).on('change', ({ value }) => {
+    if (value === 'custom')
+      return
+    setPhysics(PHYSICS_PRESETS[value])
+    // How bouncy a preset is mostly comes from the tray, the dice rarely hit each other
+    setTray({ ...params.tray, ...structuredClone(PHYSICS_PRESET_SURFACES[value]) })
+  })
+  const physicsBindings = [
+    physicsFolder.addBinding(params.physics, 'gravity', { label: 'Gravity', min: -100, max: -1, step: 1 }),
+    physicsFolder.addBinding(params.physics, 'restitution', { label: 'Die-to-Die Restitution', min: 0, max: 1, step: 0.05 }),
+    physicsFolder.addBinding(params.physics, 'friction', { label: 'Die-to-Die Friction', min: 0, max: 2, step: 0.05 }),
+    physicsFolder.addBinding(params.physics, 'dieMass', { label: 'Die Mass', min: 0.1, max: 10, step: 0.1 }),
+    physicsFolder.addBinding(params.physics, 'sleepTimeLimit', { label: 'Sleep Time', min: 0.01, max: 2, step: 0.01 }),
+    physicsFolder.addBinding(params.physics, 'sleepSpeedLimit', { label: 'Sleep Speed', min: 0.01, max: 2, step: 0.01 }),
+    physicsFolder.addBinding(params.physics, 'linearDamping', { label: 'Linear Damping', min: 0, max: 1, step: 0.01 }),
+    physicsFolder.addBinding(params.physics, 'angularDamping', { label: 'Angular Damping', min: 0, max: 1, step: 0.01 }),
+    physicsFolder.addBinding(params.physics, 'minImpulse', { label: 'Min Impulse', min: 0, max: 50, step: 0.5 }),
+    physicsFolder.addBinding(params.physics, 'maxImpulse', { label: 'Max Impulse', min: 0, max: 50, step: 0.5 }),
+  ]
+  physicsBindings.forEach(binding => binding.on('change', () => {
+    params.physics.maxImpulse = Math.max(params.physics.maxImpulse, params.physics.minImpulse)
+    params.physicsPreset = getPhysicsPreset(params.physics) ?? 'custom'
+    physicsFolder.refresh()
+  }))
+
+  const cameraFolder = pane.addFolder({ title: 'Camera', expanded: false })
+  cameraFolder.addBinding(params.camera, 'type', {
+    label: 'Type',
+    options: Object.fromEntries(CAMERA_TYPES.map(type => [type, type])),
+  })
+  cameraFolder.addBinding(params.camera, 'mode', {
+    label: 'Mode',
+    options: Object.fromEntries(CAMERA_MODES.map(mode => [mode, mode])),
+  })
+  const fixedFolder = cameraFolder.addFolder({ title: 'Fixed' })
+  fixedFolder.addBinding(params.camera.fixed, 'height', { label: 'Height', min: 5, max: 40, step: 0.5 })
+  const orbitFolder = cameraFolder.addFolder({ title: 'Orbit' })
+  orbitFolder.addBinding(params.camera.orbit, 'rotateSpeed', { label: 'Rotate Speed', min: 0.1, max: 3, step: 0.1 })
+  orbitFolder.addBinding(params.camera.orbit, 'zoomSpeed', { label: 'Zoom Speed', min: 0.1, max: 3, step: 0.1 })
+  orbitFolder.addBinding(params.camera.orbit, 'panSpeed', { label: 'Pan Speed', min: 0.1, max: 3, step: 0.1 })
+  const cinematicFolder = cameraFolder.addFolder({ title: 'Cinematic' })
+  cinematicFolder.addBinding(params.camera.cinematic, 'elevation', { label: 'Elevation', min: 10, max: 90, step: 1 })
+  cinematicFolder.addBinding(params.camera.cinematic, 'smoothing', { label: 'Smoothing', min: 0.01, max: 1, step: 0.01 })
+  cinematicFolder.addBinding(params.camera.cinematic, 'padding', { label: 'Padding', min: 1, max: 5, step: 0.1 })
+  const showCameraMode = () => {
+    fixedFolder.hidden = params.camera.mode !== 'fixed'
+    orbitFolder.hidden = params.camera.mode !== 'orbit'
+    cinematicFolder.hidden = params.camera.mode !== 'cinematic'
+  }
+  showCameraMode()
+  cameraFolder.on('change', showCameraMode)
+
+  const appearanceFolder = pane.addFolder({ title: 'Appearance', expanded: false })
+  appearanceFolder.addBinding(params.pips, 'style', {
+    label: 'Pips',
+    options: Object.fromEntries(PIP_STYLES.map(v => [v, v])),
+  })
+  appearanceFolder.addBinding(params.pips, 'notchRadius', { label: 'Pip Radius', min: 0.05, max: 0.2, step: 0.01 })
+  appearanceFolder.addBinding(params.pips, 'notchDepth', { label: 'Pip Depth', min: 0, max: 0.2, step: 0.01 })
+  themesFolder = appearanceFolder.addFolder({ title: 'Dice' })
+  refreshThemeBindings()
+
+  const roomFolder = pane.addFolder({ title: 'Room', expanded: !!params.room })
+  roomFolder.addBinding(params, 'roomServer', { label: 'Server' })
+  roomFolder.addBinding(params, 'room', { label: 'Room' })
+  roomFolder.addBinding(params, 'playerName', { label: 'Name' })
+  const roomButton = roomFolder.addButton({ title: 'Join' })
+    .on('click', () => {
+      if (roomConnection)
+        leaveRoom()
+      else if (params.room)
+        connectRoom()
+    })
+  const roomStatus = { players: '' }
+  roomFolder.addBinding(roomStatus, 'players', { label: 'Players', readonly: true, multiline: true, rows: 3 })
+  updateRoomUI = (players) => {
+    roomButton.title = roomConnection ? 'Leave' : 'Join'
+    roomStatus.players = players.map(player => player.name).join('\n')
+  }
 
   pane.on('change', () => {
     localStorage.setItem('PANE_STATE', JSON.stringify(pane.exportState()))
     updateURL()
+    updateRoller()
   })
 
   if (localStorage.getItem('PANE_STATE'))
     pane.importState(JSON.parse(localStorage.getItem('PANE_STATE')!))
 }
 
-function initScene() {
-  renderer = new THREE.WebGLRenderer({
-    alpha: true,
-    antialias: true,
-    canvas: canvasEl,
-  })
-  renderer.shadowMap.enabled = true
-  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
-
-  scene = new THREE.Scene()
-
-  // Create camera based on params.cameraType
-  if (params.cameraType === 'perspective')
-    camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 300)
-  else
-    camera = new THREE.OrthographicCamera(BOX_WIDTH / -2, BOX_WIDTH / 2, BOX_HEIGHT / 2, BOX_HEIGHT / -2, 0.1, 300)
-  camera.position.set(0, 2, 0).multiplyScalar(7)
-  camera.lookAt(0, -7, 0)
-
-  updateSceneSize()
-
-  const ambientLight = new THREE.AmbientLight(0xFFFFFF, 0.5)
-  scene.add(ambientLight)
-  const topLight = new THREE.PointLight(0xFFFFFF, 0.5)
-  topLight.position.set(10, 15, 0)
-  topLight.castShadow = true
-  topLight.shadow.mapSize.width = 2048
-  topLight.shadow.mapSize.height = 2048
-  topLight.shadow.camera.near = 5
-  topLight.shadow.camera.far = 400
-  scene.add(topLight)
-
-  createFloor()
-  createInvisibleWalls()
-  diceMesh = createDiceMesh()
+function refreshDiceBindings() {
   initDice()
-}
+  diceFolder.children.forEach(child => diceFolder.remove(child))
+  params.dice.forEach((_, i) =>
+    // @ts-expect-error: tweakpane type bug
+    diceFolder.addBinding(params.dice, `${i}`, {
+      label: `Die ${i + 1}`,
+      options: Object.fromEntries(DIE_TYPES.map(type => [type, type])),
+    }).on('change', () => {
+      params.notation = ''
+      pane.refresh()
+      refreshDiceBindings()
+    }))
 
-function initDice() {
-  simulationDiceArray.forEach(dice => simulationWorld.removeBody(dice))
-  simulationDiceArray.length = 0
-  meshArray.forEach(mesh => scene.remove(mesh))
-  meshArray.length = 0
-  for (let i = 0; i < params.numberOfDice; i++)
-    createDice()
-}
-
-function initPhysics() {
-  simulationWorld = new CANNON.World({
-    allowSleep: true,
-    gravity: new CANNON.Vec3(0, -50, 0),
+  magicFolder.children.forEach(child => magicFolder.remove(child))
+  params.desiredRolls = params.dice.map((type, i) => {
+    const values = getFaceValues(getDieDefinition(type))
+    return clamp(params.desiredRolls[i] ?? 1, values[0], values[values.length - 1])
   })
-  simulationWorld.defaultContactMaterial.restitution = 0.3
-}
-
-function createFloor() {
-  const floor = new THREE.Mesh(
-    new THREE.PlaneGeometry(1000, 1000),
-    new THREE.ShadowMaterial({
-      opacity: 0.1,
-    }),
-  )
-  floor.receiveShadow = false
-  floor.position.y = -7
-  floor.quaternion.setFromAxisAngle(new THREE.Vector3(-1, 0, 0), Math.PI * 0.5)
-  scene.add(floor)
-
-  const simulationFloorBody = new CANNON.Body({
-    type: CANNON.Body.STATIC,
-    shape: new CANNON.Plane(),
+  params.desiredRolls.forEach((_, i) => {
+    const definition = getDieDefinition(params.dice[i])
+    const values = getFaceValues(definition)
+    // Custom faces are picked by their label
+    const options = isStandardDieType(definition.type)
+      ? { min: values[0], max: values[values.length - 1], step: 1 }
+      : { options: Object.fromEntries(values.map(value => [getFaceLabel(definition, value), value])) }
+    // @ts-expect-error: tweakpane type bug
+    magicFolder.addBinding(params.desiredRolls, `${i}`, options)
   })
-  simulationFloorBody.position.copy(floor.position as unknown as CANNON.Vec3)
-  simulationFloorBody.quaternion.copy(floor.quaternion as unknown as CANNON.Quaternion)
-  simulationWorld.addBody(simulationFloorBody)
-}
-
-function createInvisibleWalls() {
-  const halfWidth = BOX_WIDTH / 2
-  const halfHeight = BOX_HEIGHT / 2
-  const floorY = -7 // Same as floor position
-
-  // Create invisible wall bodies using planes for physics simulation
-  // CANNON.Plane has a normal pointing in the +Z direction by default
-  // We need to rotate them to face inward toward the box center
-  const walls = [
-    // Front wall (at positive Z, normal pointing toward -Z)
-    {
-      position: new CANNON.Vec3(0, floorY + 5, halfHeight),
-      quaternion: new CANNON.Quaternion().setFromEuler(0, Math.PI, 0), // Rotate 180° around Y to face -Z
-    },
-    // Back wall (at negative Z, normal pointing toward +Z)
-    {
-      position: new CANNON.Vec3(0, floorY + 5, -halfHeight),
-      quaternion: new CANNON.Quaternion().setFromEuler(0, 0, 0), // Default orientation faces +Z
-    },
-    // Left wall (at negative X, normal pointing toward +X)
-    {
-      position: new CANNON.Vec3(-halfWidth, floorY + 5, 0),
-      quaternion: new CANNON.Quaternion().setFromEuler(0, Math.PI / 2, 0), // Rotate 90° around Y to face +X
-    },
-    // Right wall (at positive X, normal pointing toward -X)
-    {
-      position: new CANNON.Vec3(halfWidth, floorY + 5, 0),
-      quaternion: new CANNON.Quaternion().setFromEuler(0, -Math.PI / 2, 0), // Rotate -90° around Y to face -X
-    },
-  ]
 
-  walls.forEach((wall) => {
-    const wallBody = new CANNON.Body({
-      type: CANNON.Body.STATIC,
-      shape: new CANNON.Plane(),
-    })
-    wallBody.position.copy(wall.position)
-    wallBody.quaternion.copy(wall.quaternion)
-    simulationWorld.addBody(wallBody)
-    wallBodies.push(wallBody)
-  })
+  refreshThemeBindings()
 }
 
-function createDiceMesh() {
-  const boxMaterialOuter = new THREE.MeshStandardMaterial({
-    color: 0xEEEEEE,
-  })
-  const boxMaterialInner = new THREE.MeshStandardMaterial({
-    color: 0x000000,
-    roughness: 0,
-    metalness: 1,
-    side: THREE.DoubleSide,
+function refreshThemeBindings() {
+  if (!themesFolder)
+    return
+  const folder = themesFolder
+  folder.children.forEach(child => folder.remove(child))
+  params.dieThemes.forEach((appearance, i) => {
+    const dieFolder = folder.addFolder({ title: `Die ${i + 1}`, expanded: false })
+    dieFolder.addBinding(appearance, 'theme', {
+      label: 'Theme',
+      options: Object.fromEntries([...THEME_NAMES, 'custom'].map(name => [name, name])),
+    }).on('change', ({ value }) => {
+      if (value !== 'custom')
+        Object.assign(appearance, THEMES[value])
+    })
+    dieFolder.addBinding(appearance, 'color', { label: 'Color' })
+    dieFolder.addBinding(appearance, 'material', {
+      label: 'Material',
+      options: Object.fromEntries(DIE_MATERIALS.map(material => [material, material])),
+    })
+    dieFolder.addBinding(appearance, 'pipColor', { label: 'Pips' })
+    dieFolder.addBinding(appearance, 'edgeRadius', { label: 'Edge Radius', min: 0.01, max: 0.25, step: 0.01 })
+    dieFolder.on('change', () => {
+      appearance.theme = getThemeName(appearance) ?? 'custom'
+      dieFolder.refresh()
+    })
   })
-
-  const diceMesh = new THREE.Group()
-  const innerMesh = new THREE.Mesh(createInnerGeometry(), boxMaterialInner)
-  const outerMesh = new THREE.Mesh(createBoxGeometry(), boxMaterialOuter)
-  outerMesh.castShadow = true
-  diceMesh.add(innerMesh, outerMesh)
-
-  return diceMesh
 }
 
-function createDice() {
-  const mesh = diceMesh.clone()
-  scene.add(mesh)
-  meshArray.push(mesh)
-
-  const simulationBody = new CANNON.Body({
-    mass: 1,
-    shape: new CANNON.Box(new CANNON.Vec3(0.5, 0.5, 0.5)),
-    sleepTimeLimit: 0.1,
-  })
-  simulationDiceArray.push(simulationBody)
-  simulationWorld.addBody(simulationBody)
+function setDice(dice: DieType[], notation: string) {
+  params.dice = [...dice]
+  params.notation = notation
+  diceCount.numberOfDice = params.dice.length
+  pane.refresh()
+  refreshDiceBindings()
+}
 
-  return mesh
+function getRollConfig(): RollConfig {
+  return {
+    dice: [...params.dice],
+    notation: params.notation || undefined,
+    desiredRolls: params.magic ? [...params.desiredRolls] : undefined,
+    tableRules: { ...params.tableRules },
+    physics: { ...params.physics },
+    tray: structuredClone(params.tray),
+  }
 }
 
-function createBoxGeometry() {
-  let boxGeometry = new THREE.BoxGeometry(1, 1, 1, SEGMENTS, SEGMENTS, SEGMENTS)
+/** The room picks the seed and plays no magic rolls, so everyone gets an honest roll */
+function getRoomRollConfig(): RollConfig {
+  const { desiredRolls: _, ...config } = getRollConfig()
+  return config
+}
 
-  const positionAttr = boxGeometry.attributes.position
-  const subCubeHalfSize = 0.5 - EDGE_RADIUS
+/** Switches to the dice of `config` and throws them, e.g. for a room roll or a history entry */
+function throwRollConfig(seed: string, config: RollConfig, addToHistory = true) {
+  params.magic = !!config.desiredRolls
+  Object.assign(params.tableRules, config.tableRules ?? DEFAULT_SIMULATION_CONFIG.tableRules)
+  setPhysics(config.physics ?? DEFAULT_PHYSICS)
+  setTray(config.tray ?? DEFAULT_TRAY)
+  if (config.desiredRolls)
+    params.desiredRolls = [...config.desiredRolls]
+  setDice(config.dice, config.notation ?? '')
+  throwDice(seed, addToHistory, config.throw)
+}
 
-  for (let i = 0; i < positionAttr.count; i++) {
-    let position = new THREE.Vector3().fromBufferAttribute(positionAttr, i)
+/** Rolls what another player in the room rolled, or what we rolled through the room */
+function throwRoomRoll({ seed, config }: RollEntry) {
+  throwRollConfig(seed, config)
+}
 
-    const subCube = new THREE.Vector3(Math.sign(position.x), Math.sign(position.y), Math.sign(position.z)).multiplyScalar(subCubeHalfSize)
-    const addition = new THREE.Vector3().subVectors(position, subCube)
+function initHistory() {
+  historyEl.querySelector('.history-clear')!.addEventListener('click', () => {
+    clearHistory()
+    renderHistory(loadHistory())
+  })
+  renderHistory(loadHistory())
+}
 
-    if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.y) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
-      addition.normalize().multiplyScalar(EDGE_RADIUS)
-      position = subCube.add(addition)
-    }
-    else if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.y) > subCubeHalfSize) {
-      addition.z = 0
-      addition.normalize().multiplyScalar(EDGE_RADIUS)
-      position.x = subCube.x + addition.x
-      position.y = subCube.y + addition.y
-    }
-    else if (Math.abs(position.x) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
-      addition.y = 0
-      addition.normalize().multiplyScalar(EDGE_RADIUS)
-      position.x = subCube.x + addition.x
-      position.z = subCube.z + addition.z
-    }
-    else if (Math.abs(position.y) > subCubeHalfSize && Math.abs(position.z) > subCubeHalfSize) {
-      addition.x = 0
-      addition.normalize().multiplyScalar(EDGE_RADIUS)
-      position.y = subCube.y + addition.y
-      position.z = subCube.z + addition.z
-    }
+function renderHistory(history: HistoryEntry[]) {
+  renderHistoryPanel(historyEl, history, (entry) => {
+    params.seed = entry.seed
+    throwRollConfig(entry.seed, entry, false)
+  })
+}
 
-    const notchWave = (v: number) => {
-      v = (1 / NOTCH_RADIUS) * v
-      v = Math.PI * Math.max(-1, Math.min(1, v))
-      return NOTCH_DEPTH * (Math.cos(v) + 1.0)
-    }
-    const notch = (pos: [number, number]) => notchWave(pos[0]) * notchWave(pos[1])
+function connectRoom() {
+  roomConnection = joinRoom(params.roomServer, params.room, params.playerName, {
+    onJoined: (_, players, log) => {
+      updateRoomUI(players)
+      updateURL()
+      // Late joiners catch up by watching the latest roll
+      if (log.length > 0)
+        throwRoomRoll(log[log.length - 1])
+    },
+    onPlayersChanged: players => updateRoomUI(players),
+    onRoll: throwRoomRoll,
+    onError: message => console.error(`Room error: ${message}`),
+    onClose: () => {
+      roomConnection = undefined
+      updateRoomUI([])
+      updateURL()
+    },
+  })
+}
 
-    const offset = 0.23
+function leaveRoom() {
+  roomConnection?.leave()
+  roomConnection = undefined
+  updateRoomUI([])
+  updateURL()
+}
 
-    if (position.y === 0.5) {
-      position.y -= notch([position.x, position.z])
-    }
-    else if (position.x === 0.5) {
-      position.x -= notch([position.y + offset, position.z + offset])
-      position.x -= notch([position.y - offset, position.z - offset])
-    }
-    else if (position.z === 0.5) {
-      position.z -= notch([position.x - offset, position.y + offset])
-      position.z -= notch([position.x, position.y])
-      position.z -= notch([position.x + offset, position.y - offset])
-    }
-    else if (position.z === -0.5) {
-      position.z += notch([position.x + offset, position.y + offset])
-      position.z += notch([position.x + offset, position.y - offset])
-      position.z += notch([position.x - offset, position.y + offset])
-      position.z += notch([position.x - offset, position.y - offset])
-    }
-    else if (position.x === -0.5) {
-      position.x += notch([position.y + offset, position.z + offset])
-      position.x += notch([position.y + offset, position.z - offset])
-      position.x += notch([position.y, position.z])
-      position.x += notch([position.y - offset, position.z + offset])
-      position.x += notch([position.y - offset, position.z - offset])
+function initReplayDrop() {
+  roller.canvas.addEventListener('dragover', (event) => {
+    event.preventDefault()
+  })
+  roller.canvas.addEventListener('drop', async (event) => {
+    event.preventDefault()
+    const file = (event as DragEvent).dataTransfer?.files[0]
+    if (!file)
+      return
+    try {
+      playReplay(decodeReplay(await file.arrayBuffer()))
     }
-    else if (position.y === -0.5) {
-      position.y += notch([position.x + offset, position.z + offset])
-      position.y += notch([position.x + offset, position.z])
-      position.y += notch([position.x + offset, position.z - offset])
-      position.y += notch([position.x - offset, position.z + offset])
-      position.y += notch([position.x - offset, position.z])
-      position.y += notch([position.x - offset, position.z - offset])
+    catch (error) {
+      // Whatever went wrong came from the file, so it is reported rather than thrown
+      console.error(`Could not load replay ${file.name}:`, error instanceof ReplayError ? error.message : error)
     }
+  })
+}
 
-    positionAttr.setXYZ(i, position.x, position.y, position.z)
-  }
-
-  boxGeometry.deleteAttribute('normal')
-  boxGeometry.deleteAttribute('uv')
-  boxGeometry = BufferGeometryUtils.mergeVertices(boxGeometry)
-
-  boxGeometry.computeVertexNormals()
-
-  return boxGeometry
+function downloadReplay() {
+  if (!lastReplay)
+    return
+  const blob = new Blob([encodeReplay(lastReplay)], { type: 'application/octet-stream' })
+  downloadBlob(blob, `roll-${lastReplay.header.requestedSeed}${REPLAY_FILE_EXTENSION}`)
 }
 
-function createInnerGeometry() {
-  const baseGeometry = new THREE.PlaneGeometry(1 - 2 * EDGE_RADIUS, 1 - 2 * EDGE_RADIUS)
-  const offset = 0.48
-  // return BufferGeometryUtils.mergeGeometries([
-  return BufferGeometryUtils.mergeBufferGeometries([
-    baseGeometry.clone().translate(0, 0, offset),
-    baseGeometry.clone().translate(0, 0, -offset),
-    baseGeometry.clone().rotateX(0.5 * Math.PI).translate(0, -offset, 0),
-    baseGeometry.clone().rotateX(0.5 * Math.PI).translate(0, offset, 0),
-    baseGeometry.clone().rotateY(0.5 * Math.PI).translate(-offset, 0, 0),
-    baseGeometry.clone().rotateY(0.5 * Math.PI).translate(offset, 0, 0),
-  ], false)!
+function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a')
+  link.href = URL.createObjectURL(blob)
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(link.href)
 }
 
-function showSimulationResults(score: number) {
-  if (simulationResult.textContent === '')
-    simulationResult.textContent += score
-  else
-    simulationResult.textContent += (`+${score}`)
+/** Plays back a saved throw frame by frame, without running the physics */
+function playReplay(replay: Replay) {
+  const { header, track } = replay
+  lastReplay = replay
+  params.seed = header.requestedSeed
+  setDice(header.dice, header.notation ?? '')
+  setPhysics(header.physics ?? DEFAULT_PHYSICS)
+  setTray(header.tray ?? DEFAULT_TRAY)
+  showRollResult(header.rollResult, header.requestedSeed)
+  roller.play(track)
 }
 
-function updateSceneSize() {
-  const aspect = window.innerWidth / window.innerHeight
+function initRoller() {
+  roller = createDiceRoller(rollerEl, {
+    ...getRollerConfig(),
+    onHandThrow: (descriptor) => {
+      if (roomConnection)
+        roomConnection.roll({ ...getRoomRollConfig(), throw: descriptor })
+      else
+        throwDice(params.seed || undefined, true, descriptor)
+    },
+  })
+  roller.on('frame', recordFrame)
+}
 
-  if (camera instanceof THREE.OrthographicCamera) {
-    // For orthographic camera, we need to update the projection matrix differently
-    const size = BOX_WIDTH / 2
-    camera.left = -size * aspect
-    camera.right = size * aspect
-    camera.top = size
-    camera.bottom = -size
-    camera.updateProjectionMatrix()
-  }
-  else if (camera instanceof THREE.PerspectiveCamera) {
-    // For perspective camera, update aspect ratio
-    camera.aspect = aspect
-    camera.updateProjectionMatrix()
+function getRollerConfig(): Partial<DiceRollerConfig> {
+  return {
+    dice: params.dice,
+    themes: params.dieThemes,
+    pips: params.pips,
+    tray: params.tray,
+    physics: params.physics,
+    tableRules: params.tableRules,
+    camera: params.camera,
+    fixedFrames: params.renderFixedFrames,
   }
-
-  renderer.setSize(window.innerWidth, window.innerHeight)
-  renderer.render(scene, camera)
 }
 
-function throwDice(seed?: string) {
-  // eslint-disable-next-line symbol-description
-  renderId = Symbol()
-  renderSimulation(simulateThrow(seed), renderId)
+/** Hands the params over to the roller, which only rebuilds what changed */
+function updateRoller() {
+  roller.setConfig(getRollerConfig())
 }
 
-function generateNonOverlappingPositions(numDice: number, rng: () => number): CANNON.Vec3[] {
-  const positions: CANNON.Vec3[] = []
-  const minDistance = 1.2 // Reduced minimum distance to fit more dice
-  const maxAttempts = 100 // Maximum attempts to find a valid position
-  const startHeight = 3 // Height above the floor to start dice
-
-  // Calculate usable area within the invisible walls with more conservative margins
-  // Leave at least 1 unit margin from walls, and account for dice size (0.5 radius)
-  const margin = 1.5 // Conservative margin including dice radius
-  const usableWidth = BOX_WIDTH - 2 * margin
-  const usableHeight = BOX_HEIGHT - 2 * margin
-  const halfUsableWidth = usableWidth / 2
-  const halfUsableHeight = usableHeight / 2
-
-  for (let i = 0; i < numDice; i++) {
-    let validPosition = false
-    let attempts = 0
-    let newPosition: CANNON.Vec3
-
-    do {
-      // Generate random X and Z positions within the constrained area
-      const x = (rng() - 0.5) * 2 * halfUsableWidth
-      const z = (rng() - 0.5) * 2 * halfUsableHeight
-      const y = startHeight + rng() * 0.5 // Small random height variation
-
-      newPosition = new CANNON.Vec3(x, y, z)
-
-      // Check if this position is far enough from all existing positions
-      validPosition = positions.every((existingPos) => {
-        const distance = newPosition.distanceTo(existingPos)
-        return distance >= minDistance
+function recordFrame({ index, time, last }: DiceRollerEventMap['frame']) {
+  if (index === 0) {
+    // A newer throw took over, drop the previous one's recording
+    recorder?.cancel()
+    recorder = params.record
+      ? startRecording(roller.canvas, {
+        background: getComputedStyle(document.body).backgroundColor,
+        maxGifWidth: 480,
+        fps: 60,
       })
-
-      attempts++
-    } while (!validPosition && attempts < maxAttempts)
-
-    // If we couldn't find a valid position after max attempts, fall back to a grid position
-    if (!validPosition) {
-      const cols = Math.ceil(Math.sqrt(numDice))
-      const rows = Math.ceil(numDice / cols)
-      const col = i % cols
-      const row = Math.floor(i / cols)
-
-      // Create grid spacing that fits within usable area
-      const gridSpacingX = usableWidth / Math.max(cols - 1, 1)
-      const gridSpacingZ = usableHeight / Math.max(rows - 1, 1)
-
-      const fallbackX = (col - (cols - 1) / 2) * Math.min(gridSpacingX, minDistance)
-      const fallbackZ = (row - (rows - 1) / 2) * Math.min(gridSpacingZ, minDistance)
-
-      newPosition = new CANNON.Vec3(fallbackX, startHeight, fallbackZ)
-    }
-
-    positions.push(newPosition)
+      : undefined
   }
+  recorder?.captureFrame(time)
 
-  return positions
+  if (last && recorder) {
+    recorder.stop().then((recording) => {
+      lastRecording = recording
+      // eslint-disable-next-line no-console
+      console.log(`Recorded ${recording.frameCount} frames`)
+    })
+    recorder = undefined
+  }
 }
 
-function simulateThrow(seed?: string, retryCount = 0) {
-  simulationResult.textContent = ''
-  seed ??= Math.random().toString(36).slice(2)
-  const rng = seedrandom(seed)
-  let numSlept = 0
-  const simulationRecord: [CANNON.Vec3, CANNON.Quaternion][][] = []
-  const rollResult = simulationDiceArray.map(() => 1)
-
-  const eventHandlers: (Function | null)[] = []
-
-  // Generate random positions for dice that don't overlap
-  const dicePositions = generateNonOverlappingPositions(params.numberOfDice, rng)
-
-  // Stuck detection variables
-  const stuckDetectionThreshold = 0.001 // Negligible movement threshold
-  const stuckDetectionSteps = 1000 // Number of steps to check for stuck state
-  let lastPositions: CANNON.Vec3[] = []
-
-  simulationDiceArray.forEach((body, dIdx) => {
-    body.velocity.setZero()
-    body.angularVelocity.setZero()
-
-    body.position = dicePositions[dIdx]
-
-    const rotation = new THREE.Euler(2 * Math.PI * rng(), 2 * Math.PI * rng(), 2 * Math.PI * rng())
-    body.quaternion.copy(new THREE.Quaternion().setFromEuler(rotation) as unknown as CANNON.Quaternion)
-
-    const force = 3 + 10 * rng()
-    const theta = 2 * Math.PI * rng()
-    body.applyImpulse(
-      new CANNON.Vec3(Math.sin(theta) * force, Math.cos(theta) * force, 0),
-      new CANNON.Vec3(0, 0, 0.2),
-    )
+function initDice() {
+  // Kept in place, the pane is bound to it
+  params.dieThemes.length = Math.min(params.dieThemes.length, params.dice.length)
+  params.dice.forEach((_, i) => params.dieThemes[i] ??= { theme: 'classic', ...DEFAULT_THEME })
 
-    body.allowSleep = true
+  updateRoller()
+}
 
-    const eventHandler = (e: any) => {
-      body.allowSleep = false
+/** Copies `physics` into the params in place, so the pane bindings stay attached */
+function setPhysics(physics: PhysicsConfig) {
+  Object.assign(params.physics, physics)
+  params.physicsPreset = getPhysicsPreset(physics) ?? 'custom'
+  pane.refresh()
+}
 
-      const euler = new CANNON.Vec3()
-      e.target.quaternion.toEuler(euler)
+/** Copies `tray` into the params in place, so the pane bindings stay attached */
+function setTray(tray: TrayConfig) {
+  Object.assign(params.tray.floor, tray.floor)
+  Object.assign(params.tray.walls, tray.walls)
+  Object.assign(params.tray, { ...tray, floor: params.tray.floor, walls: params.tray.walls })
+  pane.refresh()
+  updateRoller()
+}
 
-      const face = getFaceUp(euler)
-      if (face) {
-        numSlept += 1
-        showSimulationResults(face)
-        rollResult[dIdx] = face
-        eventHandlers[dIdx] = null
-        body.removeEventListener('sleep', eventHandler)
-      }
-      else {
-        body.allowSleep = true
-      }
-    }
-    eventHandlers.push(eventHandler)
-    body.addEventListener('sleep', eventHandler)
-  })
+function showSimulationResults(rollResult: number[]) {
+  const definitions = params.dice.map(getDieDefinition)
+  if (definitions.every(definition => isStandardDieType(definition.type))) {
+    simulationResult.textContent = rollResult.join('+')
+    return
+  }
+  // Custom faces are shown by their labels, with a total only if they all count towards one
+  const labels = rollResult.map((value, i) => getFaceLabel(definitions[i], value)).join(' ')
+  simulationResult.textContent = definitions.every(definition => definition.scored)
+    ? `${labels} = ${rollResult.reduce((sum, value) => sum + value, 0)}`
+    : labels
+}
 
+/** Throws the current dice, by hand if `throwDescriptor` is given and with a random impulse otherwise */
+async function throwDice(seed?: string, addToHistory = true, throwDescriptor?: ThrowDescriptor) {
+  params.throw = throwDescriptor ? serializeThrow(throwDescriptor) : ''
+  updateURL()
+  // Without a seed a hand throw is fully decided by the gesture, so its URL reproduces it
+  seed ??= params.throw || Math.random().toString(36).slice(2)
+  updateRoller()
+  // The params may change while the throw is simulated
+  const rollConfig = getRollConfig()
   const simulationStart = performance.now()
-  let i = 0
-  while (numSlept < params.numberOfDice) {
-    simulationRecord.push(simulationDiceArray.map(d => [d.position.clone(), d.quaternion.clone()]))
-    simulationWorld.step(1 / 60, 1 / 60)
-    i++
-
-    // Check for stuck state every stuckDetectionSteps
-    if (i % stuckDetectionSteps === 0) {
-      const currentPositions = simulationDiceArray.map(d => d.position.clone())
-      const currentVelocities = simulationDiceArray.map(d => d.velocity.clone())
-
-      if (lastPositions.length > 0) {
-        let allStuck = true
-        for (let dIdx = 0; dIdx < simulationDiceArray.length; dIdx++) {
-          const positionDelta = currentPositions[dIdx].distanceTo(lastPositions[dIdx])
-          const velocityMagnitude = currentVelocities[dIdx].length()
-
-          // If any dice has significant movement or velocity, not stuck
-          if (positionDelta > stuckDetectionThreshold || velocityMagnitude > stuckDetectionThreshold) {
-            allStuck = false
-            break
-          }
-        }
-
-        if (allStuck && retryCount < 10) {
-          console.warn(`Simulation appears stuck after ${i} steps with seed ${seed}, retrying with new seed (attempt ${retryCount + 1})`)
-          eventHandlers.map((f, idx) => f && simulationDiceArray[idx].removeEventListener('sleep', f))
-
-          // Generate new seed and retry
-          const newSeed = Math.random().toString(36).slice(2)
-          return simulateThrow(newSeed, retryCount + 1)
-        }
-      }
-
-      lastPositions = currentPositions
-    }
-
-    if (performance.now() - simulationStart > 1000) {
-      console.error(`simulation timed out after ${i} steps, with seed ${seed}`)
-      eventHandlers.map((f, i) => f && simulationDiceArray[i].removeEventListener('sleep', f))
-      break
-    }
-  }
-  simulationRecord.push(simulationDiceArray.map(d => [d.position.clone(), d.quaternion.clone()]))
+  const simulation = await roller.roll({ seed, throw: throwDescriptor, desiredRolls: rollConfig.desiredRolls })
+    .catch((error) => {
+      console.error(`Could not simulate seed ${seed}:`, error)
+      simulationResult.textContent = 'Simulation failed'
+    })
+  if (!simulation)
+    return
   // eslint-disable-next-line no-console
   console.log('simulation took', (performance.now() - simulationStart) / 1000, 'seconds')
-  return [rollResult, simulationRecord] as const
-}
-
-function renderSimulation([rollResult, simulationRecord]: ReturnType<typeof simulateThrow>, id: symbol) {
-  const start = performance.now()
-  storedFrames.length = 0 // Reset stored frames for new simulation
-
-  let lastFrameTime = start
-  let fixedFrameIdx = 0
-  const renderHelper = () => {
-    const now = performance.now()
-    if (params.renderFixedFrames) {
-      meshArray.forEach((mesh, idx) => {
-        mesh.position.copy(simulationRecord[fixedFrameIdx][idx][0] as unknown as THREE.Vector3)
-        mesh.quaternion.copy(simulationRecord[fixedFrameIdx][idx][1] as unknown as THREE.Quaternion)
-      })
-      if (id === renderId)
-        requestAnimationFrame(renderHelper)
-      if (fixedFrameIdx >= simulationRecord.length - 1) {
-        // Log stored frames count when animation completes
-        if (params.storeFrames && storedFrames.length > 0) {
-          // eslint-disable-next-line no-console
-          console.log(`Stored ${storedFrames.length} frames as base64 PNG strings`)
-        }
-        return
-      }
-      fixedFrameIdx++
-    }
-    else {
-      const step = ((now - start) / 1000) * 60
-      const i = clamp(Math.floor(step), 0, simulationRecord.length - 1)
-      const j = Math.ceil(step)
-
-      if (simulationRecord[j]) {
-        meshArray.forEach((mesh, idx) => {
-          mesh.position.lerpVectors(
-            simulationRecord[i][idx][0] as unknown as THREE.Vector3,
-            simulationRecord[j][idx][0] as unknown as THREE.Vector3,
-            step - i,
-          )
-          mesh.quaternion.copy(
-            simulationRecord[i][idx][1] as unknown as THREE.Quaternion,
-          ).slerp(
-            new THREE.Quaternion().copy(simulationRecord[j][idx][1] as unknown as THREE.Quaternion),
-            step - i,
-          )
-        })
-        if (id === renderId)
-          requestAnimationFrame(renderHelper)
-      }
-      else {
-        meshArray.forEach((mesh, idx) => {
-          mesh.position.copy(simulationRecord[i][idx][0] as unknown as THREE.Vector3)
-          mesh.quaternion.copy(simulationRecord[i][idx][1] as unknown as THREE.Quaternion)
-        })
-
-        // Log stored frames count when animation completes
-        if (params.storeFrames && storedFrames.length > 0) {
-          // eslint-disable-next-line no-console
-          console.log(`Stored ${storedFrames.length} frames as base64 PNG strings`)
-        }
-      }
-    }
-
-    if (params.magic)
-      meshArray.forEach((mesh, i) => makeDesired(mesh, rollResult[i], params.desiredRolls[i]))
-
-    renderer.render(scene, camera)
-
-    // Store frame as base64 PNG if storeFrames is enabled
-    if (params.storeFrames) {
-      const canvas = renderer.domElement
-      const base64Frame = canvas.toDataURL('image/png')
-      if (!params.renderFixedFrames && storedFrames.length > 0)
-        storedFrames[storedFrames.length - 1].duration = now - lastFrameTime
-      storedFrames.push({ frame: base64Frame })
-      if (params.renderFixedFrames)
-        storedFrames[storedFrames.length - 1].duration = 1 / 60 * 1000
-    }
-
-    lastFrameTime = now
+  if (simulation.retries > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`seed ${seed} was retried ${simulation.retries} times, effective seed ${simulation.seed} (${simulation.status})`)
   }
-  renderHelper()
-}
-
-function switchCameraType() {
-  // Store current camera position and target
-  const position = camera.position.clone()
-  const target = new THREE.Vector3(0, -7, 0)
 
-  // Create new camera based on params.cameraType
-  if (params.cameraType === 'perspective')
-    camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 300)
-  else
-    camera = new THREE.OrthographicCamera(BOX_WIDTH / -2, BOX_WIDTH / 2, BOX_HEIGHT / 2, BOX_HEIGHT / -2, 0.1, 300)
+  showRollResult(simulation.rollResult, seed)
+  if ('found' in simulation && !simulation.found)
+    simulationResult.textContent += ' (no magic roll found)'
+  const outcomeNotes = describeOutcomes(simulation)
+  if (outcomeNotes)
+    simulationResult.textContent += ` (${outcomeNotes})`
+  simulationResult.title = simulation.faceReadings
+    .map(({ tilt, confidence }, i) => `Die ${i + 1}: tilted ${(tilt * 180 / Math.PI).toFixed(1)}°, confidence ${confidence.toFixed(2)}`)
+    .join('\n')
+
+  if (addToHistory) {
+    renderHistory(addHistoryEntry({
+      timestamp: Date.now(),
+      seed,
+      ...rollConfig,
+      throw: throwDescriptor,
+      rollResult: simulation.rollResult,
+      text: simulationResult.textContent ?? '',
+    }))
+  }
 
-  // Restore camera position and target
-  camera.position.copy(position)
-  camera.lookAt(target)
+  lastReplay = createReplay(simulation, {
+    dice: rollConfig.dice,
+    stepRate: DEFAULT_SIMULATION_CONFIG.stepRate,
+    notation: rollConfig.notation,
+    throw: throwDescriptor,
+    physics: rollConfig.physics,
+    tray: rollConfig.tray,
+  })
+}
 
-  // Update scene size to handle the new camera type
-  updateSceneSize()
+const OUTCOME_LABELS: Record<DieOutcome, string> = {
+  'settled': 'settled',
+  'cocked': 'cocked',
+  'out-of-bounds': 'off the table',
+  'timed-out': 'still rolling',
 }
 
-function getFaceUp(euler: CANNON.Vec3) {
-  const eps = 0.1
-  const isZero = (angle: number) => Math.abs(angle) < eps
-  const isHalfPi = (angle: number) => Math.abs(angle - 0.5 * Math.PI) < eps
-  const isMinusHalfPi = (angle: number) => Math.abs(0.5 * Math.PI + angle) < eps
-  const isPiOrMinusPi = (angle: number) => (Math.abs(Math.PI - angle) < eps || Math.abs(Math.PI + angle) < eps)
+/** Notes on dice that did not simply settle, e.g. `die 2 cocked, die 3 re-rolled 1×` */
+function describeOutcomes({ outcomes, dieRerolls }: Pick<SimulationResult, 'outcomes' | 'dieRerolls'>) {
+  return outcomes.flatMap((outcome, i) => [
+    ...outcome === 'settled' ? [] : [`die ${i + 1} ${OUTCOME_LABELS[outcome]}`],
+    ...dieRerolls[i] ? [`die ${i + 1} re-rolled ${dieRerolls[i]}×`] : [],
+  ]).join(', ')
+}
 
-  if (isZero(euler.z)) {
-    if (isZero(euler.x)) {
-      return 1
-    }
-    else if (isHalfPi(euler.x)) {
-      return 4
-    }
-    else if (isMinusHalfPi(euler.x)) {
-      return 3
-    }
-    else if (isPiOrMinusPi(euler.x)) {
-      return 6
+function showRollResult(rollResult: number[], seed: string) {
+  const node = params.notation ? parseDiceNotation(params.notation) : undefined
+  if (node) {
+    try {
+      // Rerolls and explosions are not thrown physically, keep them reproducible from the seed
+      const { text } = evaluateNotation(node, rollResult, seedrandom(`${seed}:notation`))
+      simulationResult.textContent = text
+      return
     }
-    else {
-      // landed on edge
-      return 0
+    catch (error) {
+      // Divided by zero, only known once the dice have landed
+      if (!(error instanceof NotationError))
+        throw error
+      console.warn(`Could not evaluate notation "${params.notation}": ${error.message}`)
     }
   }
-  else if (isHalfPi(euler.z)) {
-    return 2
-  }
-  else if (isMinusHalfPi(euler.z)) {
-    return 5
-  }
-  else {
-    // landed on edge
-    return 0
-  }
+  showSimulationResults(rollResult)
 }
 
-function makeDesired(mesh: THREE.Group, actual: number, desired: number) {
-  // const euler = new THREE.Euler().setFromQuaternion(mesh.quaternion)
-  // console.log(actual, JSON.stringify(euler))
-  if (actual === desired)
-    return
-
-  const rotationAxis = new THREE.Vector3(1, 0, 0)
-  let angle = Math.PI / 2
-
-  // !!! THERE HAS TO BE A BETTER WAY !!!
-  if (actual === 1) {
-    if (desired === 2)
-      rotationAxis.set(0, 0, 1)
-    else if (desired === 3)
-      rotationAxis.set(-1, 0, 0)
-    else if (desired === 4)
-      rotationAxis.set(1, 0, 0)
-    else if (desired === 5)
-      rotationAxis.set(0, 0, -1)
-    else if (desired === 6)
-      angle = Math.PI
+/** Parses `notation`, returning undefined if it is invalid or needs more dice than the table holds */
+function parseDiceNotation(notation: string): NotationNode | undefined {
+  try {
+    const node = parseNotation(notation)
+    const diceCount = getNotationDice(node).length
+    if (diceCount >= 1 && diceCount <= MAX_DICE)
+      return node
+    console.warn(`Notation "${notation}" needs ${diceCount} dice, expected 1 to ${MAX_DICE}`)
   }
-  else if (actual === 2) {
-    if (desired === 1) {
-      rotationAxis.set(0, 0, -1)
-    }
-    else if (desired === 3) {
-      rotationAxis.set(1, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 4) {
-      rotationAxis.set(1, 0, -1)
-      angle = Math.PI
-    }
-    else if (desired === 5) {
-      rotationAxis.set(0, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 6) {
-      rotationAxis.set(0, 0, 1)
-    }
+  catch (error) {
+    if (!(error instanceof NotationError))
+      throw error
+    console.warn(`Invalid notation "${notation}": ${error.message}`)
   }
-  else if (actual === 3) {
-    if (desired === 1) {
-      rotationAxis.set(1, 0, 0)
-    }
-    else if (desired === 2) {
-      rotationAxis.set(1, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 4) {
-      rotationAxis.set(1, 0, 0)
-      angle = Math.PI
-    }
-    else if (desired === 5) {
-      rotationAxis.set(1, 0, -1)
-      angle = Math.PI
-    }
-    else if (desired === 6) {
-      rotationAxis.set(-1, 0, 0)
-    }
-  }
-  else if (actual === 4) {
-    if (desired === 1) {
-      rotationAxis.set(-1, 0, 0)
-    }
-    else if (desired === 2) {
-      rotationAxis.set(1, 0, -1)
-      angle = Math.PI
-    }
-    else if (desired === 3) {
-      rotationAxis.set(1, 0, 0)
-      angle = Math.PI
-    }
-    else if (desired === 5) {
-      rotationAxis.set(1, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 6) {
-      rotationAxis.set(1, 0, 0)
-    }
-  }
-  else if (actual === 5) {
-    if (desired === 1) {
-      rotationAxis.set(0, 0, 1)
-    }
-    else if (desired === 2) {
-      rotationAxis.set(0, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 3) {
-      rotationAxis.set(1, 0, -1)
-      angle = Math.PI
-    }
-    else if (desired === 4) {
-      rotationAxis.set(1, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 6) {
-      rotationAxis.set(0, 0, -1)
-    }
-  }
-  else if (actual === 6) {
-    if (desired === 1) {
-      rotationAxis.set(0, 0, 1)
-      angle = Math.PI
-    }
-    else if (desired === 2) {
-      rotationAxis.set(0, 0, -1)
-    }
-    else if (desired === 3) {
-      rotationAxis.set(1, 0, 0)
-    }
-    else if (desired === 4) {
-      rotationAxis.set(-1, 0, 0)
-    }
-    else if (desired === 5) {
-      rotationAxis.set(0, 0, 1)
-    }
-  }
-
-  const rotationQuaternion = new THREE.Quaternion()
-  rotationQuaternion.setFromAxisAngle(rotationAxis.normalize(), angle)
-  mesh.quaternion.multiply(rotationQuaternion)
 }
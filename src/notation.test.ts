@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { NotationError, evaluateNotation, getNotationDice, parseNotation } from './notation'
+
+/** Rolls extra dice from `fractions` in turn, as fractions of the die's faces */
+function sequence(...fractions: number[]) {
+  let i = 0
+  return () => fractions[i++ % fractions.length]
+}
+
+function evaluate(notation: string, rollResult: number[], rng = sequence(0)) {
+  return evaluateNotation(parseNotation(notation), rollResult, rng)
+}
+
+describe('parseNotation', () => {
+  it('parses dice, numbers and operators', () => {
+    expect(parseNotation('4d6kh3+2')).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'dice', count: 4, die: 'd6', sides: 6, modifiers: [{ type: 'keep', highest: true, count: 3 }] },
+      right: { type: 'number', value: 2 },
+      position: 6,
+    })
+    expect(getNotationDice(parseNotation('(1d8 + 2D6) * 2'))).toEqual(['d8', 'd6', 'd6'])
+  })
+
+  it('sorts the modifiers into reroll, explode, keep or drop', () => {
+    const node = parseNotation('3d6kh2!r1')
+    expect(node.type === 'dice' && node.modifiers.map(modifier => modifier.type)).toEqual(['reroll', 'explode', 'keep'])
+  })
+
+  it('reads custom dice by name', () => {
+    expect(getNotationDice(parseNotation('4dF'))).toEqual(['dF', 'dF', 'dF', 'dF'])
+    expect(getNotationDice(parseNotation('2coin + story'))).toEqual(['coin', 'coin', 'story'])
+    const node = parseNotation('3dF!')
+    expect(node.type === 'dice' && node.modifiers).toEqual([{ type: 'explode', compare: { operator: '=', value: 1 } }])
+  })
+
+  it('refuses invalid notation', () => {
+    for (const notation of ['', 'd7', '2d', '0d6', '(1d6', '1d6 1', '1d6r<6', '1d6!>1', 'dX'])
+      expect(() => parseNotation(notation), notation).toThrow(NotationError)
+  })
+})
+
+describe('evaluateNotation', () => {
+  it('adds up the dice and numbers', () => {
+    const { total, text, groups } = evaluate('2d6+1d8-3', [6, 2, 5])
+    expect(total).toBe(10)
+    expect(text).toBe('[6, 2] + [5] - 3 = 10')
+    expect(groups.map(group => group.total)).toEqual([8, 5])
+  })
+
+  it('keeps and drops dice', () => {
+    expect(evaluate('4d6kh3', [3, 6, 1, 4]).text).toBe('[3, 6, (1), 4] = 13')
+    expect(evaluate('2d20kl1', [17, 9]).total).toBe(9)
+    expect(evaluate('4d6dl1', [3, 6, 1, 4]).total).toBe(13)
+  })
+
+  it('explodes before keeping, wherever the modifiers are written', () => {
+    // The 6 explodes into a 4, then the two highest of 6, 2, 3 and 4 are kept
+    const rng = sequence(0.5)
+    expect(evaluate('3d6kh2!', [6, 2, 3], rng).total).toBe(10)
+    expect(evaluate('3d6!kh2', [6, 2, 3], rng).total).toBe(10)
+  })
+
+  it('rerolls from the rng', () => {
+    const { total, groups } = evaluate('2d6r1', [1, 5], sequence(0, 0.99))
+    // The 1 is rerolled into another 1, then into a 6
+    expect(total).toBe(11)
+    expect(groups[0].rolls[0].rerolled).toEqual([1, 1])
+  })
+
+  it('rolls extra custom dice from their faces', () => {
+    const { total, groups } = evaluate('2dF!', [1, -1], sequence(0.99, 0))
+    expect(groups[0].rolls.map(roll => roll.value)).toEqual([1, -1, 1, -1])
+    expect(total).toBe(0)
+  })
+
+  it('truncates divisions and refuses to divide by zero', () => {
+    expect(evaluate('7/2', []).total).toBe(3)
+    expect(() => evaluate('1d6/(1d6-1d6)', [4, 3, 3])).toThrow(NotationError)
+  })
+})
@@ -0,0 +1,329 @@
+import type { DieType } from './dice'
+import { DIE_TYPES, getDieDefinition, isDieType, isStandardDieType } from './dice'
+
+/**
+ * Standard RPG dice notation, e.g. `4d6kh3+2`, `2d20kl1`, `3d6!`, `2d6r1`, `(1d8+1d6)*2`.
+ * Custom dice are written by name, e.g. `4dF` or `3coin+1`.
+ *
+ * Supported dice modifiers, applied in this order wherever they are written:
+ * - `r<cp>` reroll while the compare point matches (default `r1`), `ro<cp>` reroll once
+ * - `!<cp>` explode: roll another die whenever the compare point matches (default: max face)
+ * - `kh<n>`/`k<n>` keep highest, `kl<n>` keep lowest, `dh<n>` drop highest, `dl<n>` drop lowest
+ *
+ * A compare point is a number optionally prefixed with `=`, `<` or `>`; `<` and `>` are inclusive.
+ */
+
+export class NotationError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`)
+    this.name = 'NotationError'
+  }
+}
+
+export interface ComparePoint {
+  operator: '=' | '<' | '>'
+  value: number
+}
+
+export type DiceModifier =
+  | { type: 'reroll', once: boolean, compare: ComparePoint }
+  | { type: 'explode', compare: ComparePoint }
+  | { type: 'keep' | 'drop', highest: boolean, count: number }
+
+export type NotationNode =
+  | { type: 'number', value: number }
+  | { type: 'dice', count: number, die: DieType, sides: number, modifiers: DiceModifier[] }
+  | { type: 'negate', operand: NotationNode }
+  /** `position` is where the operator is in the notation */
+  | { type: 'binary', operator: '+' | '-' | '*' | '/', left: NotationNode, right: NotationNode, position: number }
+
+export interface DieRoll {
+  value: number
+  /** Values this die showed before being rerolled */
+  rerolled: number[]
+  /** True for dice added by an explosion rather than physically thrown */
+  exploded: boolean
+  kept: boolean
+}
+
+export interface DiceGroupResult {
+  node: Extract<NotationNode, { type: 'dice' }>
+  rolls: DieRoll[]
+  total: number
+}
+
+export interface NotationResult {
+  total: number
+  groups: DiceGroupResult[]
+  /** Human readable breakdown, e.g. `[6, 5, 3, (1)] + 2 = 16` */
+  text: string
+}
+
+// Guards against modifiers like `1d6!>0` that would never stop rolling
+const MAX_EXTRA_ROLLS = 100
+
+const MODIFIER_ORDER: Record<DiceModifier['type'], number> = { reroll: 0, explode: 1, keep: 2, drop: 2 }
+
+export function parseNotation(input: string): NotationNode {
+  let pos = 0
+
+  const skipWhitespace = () => {
+    while (pos < input.length && /\s/.test(input[pos]))
+      pos++
+  }
+  const peek = (token: string) => {
+    skipWhitespace()
+    return input.startsWith(token, pos)
+  }
+  const accept = (token: string) => {
+    if (!peek(token))
+      return false
+    pos += token.length
+    return true
+  }
+  const readInteger = () => {
+    skipWhitespace()
+    const match = /^\d+/.exec(input.slice(pos))
+    if (!match)
+      return undefined
+    pos += match[0].length
+    return Number.parseInt(match[0])
+  }
+
+  function parseExpression(): NotationNode {
+    let left = parseTerm()
+    while (peek('+') || peek('-')) {
+      const position = pos
+      const operator = input[pos++] as '+' | '-'
+      left = { type: 'binary', operator, left, right: parseTerm(), position }
+    }
+    return left
+  }
+
+  function parseTerm(): NotationNode {
+    let left = parseFactor()
+    while (peek('*') || peek('/')) {
+      const position = pos
+      const operator = input[pos++] as '*' | '/'
+      left = { type: 'binary', operator, left, right: parseFactor(), position }
+    }
+    return left
+  }
+
+  function parseFactor(): NotationNode {
+    if (accept('-'))
+      return { type: 'negate', operand: parseFactor() }
+    if (accept('(')) {
+      const node = parseExpression()
+      if (!accept(')'))
+        throw new NotationError('Expected ")"', pos)
+      return node
+    }
+
+    const start = pos
+    const count = readInteger()
+    let die = readCustomDie()
+    if (!die) {
+      if (!accept('d') && !accept('D')) {
+        if (count === undefined)
+          throw new NotationError('Expected a number or dice', start)
+        return { type: 'number', value: count }
+      }
+      const sides = readInteger()
+      die = `d${sides ?? ''}`
+      if (sides === undefined || !isDieType(die))
+        throw new NotationError(`Unsupported die "${die}"`, start)
+    }
+    if (count === 0)
+      throw new NotationError('Dice count must be at least 1', start)
+
+    const { sides } = getDieDefinition(die)
+    const node: Extract<NotationNode, { type: 'dice' }> = { type: 'dice', count: count ?? 1, die, sides, modifiers: [] }
+    parseModifiers(node)
+    node.modifiers.sort((a, b) => MODIFIER_ORDER[a.type] - MODIFIER_ORDER[b.type])
+    return node
+  }
+
+  // The longest name wins, so a die named like the start of another one can't hide it
+  function readCustomDie() {
+    skipWhitespace()
+    const die = DIE_TYPES
+      .filter(type => !isStandardDieType(type) && input.startsWith(type, pos))
+      .reduce<DieType | undefined>((longest, type) => type.length > (longest?.length ?? 0) ? type : longest, undefined)
+    if (die)
+      pos += die.length
+    return die
+  }
+
+  function parseComparePoint(fallback: ComparePoint | undefined): ComparePoint {
+    skipWhitespace()
+    const start = pos
+    const operator = ['=', '<', '>'].includes(input[pos]) ? input[pos++] as ComparePoint['operator'] : '='
+    const value = readInteger()
+    if (value === undefined) {
+      if (fallback && operator === '=' && start === pos)
+        return fallback
+      throw new NotationError('Expected a compare point', pos)
+    }
+    return { operator, value }
+  }
+
+  function parseModifiers(node: Extract<NotationNode, { type: 'dice' }>) {
+    while (true) {
+      const start = pos
+      if (accept('ro') || accept('r')) {
+        const once = input.slice(start, pos).trim() === 'ro'
+        const compare = parseComparePoint({ operator: '=', value: 1 })
+        if (getRollableValues(node.die).every(value => matches(value, compare)))
+          throw new NotationError('Reroll would match every face', start)
+        node.modifiers.push({ type: 'reroll', once, compare })
+      }
+      else if (accept('!')) {
+        const values = getRollableValues(node.die)
+        const compare = parseComparePoint({ operator: '=', value: values[values.length - 1] })
+        if (values.every(value => matches(value, compare)))
+          throw new NotationError('Explosion would match every face', start)
+        node.modifiers.push({ type: 'explode', compare })
+      }
+      else if (accept('kh') || accept('kl') || accept('k') || accept('dh') || accept('dl')) {
+        const token = input.slice(start, pos).trim()
+        const count = readInteger() ?? 1
+        node.modifiers.push({ type: token[0] === 'k' ? 'keep' : 'drop', highest: token !== 'kl' && token !== 'dl', count })
+      }
+      else {
+        return
+      }
+    }
+  }
+
+  const node = parseExpression()
+  skipWhitespace()
+  if (pos < input.length)
+    throw new NotationError(`Unexpected "${input[pos]}"`, pos)
+  return node
+}
+
+/** The dice that have to be physically thrown for `node`, in evaluation order */
+export function getNotationDice(node: NotationNode): DieType[] {
+  switch (node.type) {
+    case 'number':
+      return []
+    case 'dice':
+      return Array.from({ length: node.count }, () => node.die)
+    case 'negate':
+      return getNotationDice(node.operand)
+    case 'binary':
+      return [...getNotationDice(node.left), ...getNotationDice(node.right)]
+  }
+}
+
+/**
+ * Evaluates `node` with the physically thrown `rollResult` (in the order of `getNotationDice`).
+ * Rerolls and explosions need more dice than were thrown; those are drawn from `rng`,
+ * which should be seeded from the throw seed to keep the outcome reproducible.
+ * Throws a `NotationError` if it divides by zero.
+ */
+export function evaluateNotation(node: NotationNode, rollResult: number[], rng: () => number): NotationResult {
+  let cursor = 0
+  const groups: DiceGroupResult[] = []
+  const rollExtra = (die: DieType) => {
+    const values = getRollableValues(die)
+    return values[Math.floor(rng() * values.length)]
+  }
+
+  const evaluate = (node: NotationNode): [number, string] => {
+    switch (node.type) {
+      case 'number':
+        return [node.value, `${node.value}`]
+      case 'negate': {
+        const [value, text] = evaluate(node.operand)
+        return [-value, `-${text}`]
+      }
+      case 'binary': {
+        const [left, leftText] = evaluate(node.left)
+        const [right, rightText] = evaluate(node.right)
+        const precedence = getPrecedence(node)
+        const leftGrouped = getPrecedence(node.left) < precedence ? `(${leftText})` : leftText
+        const rightGrouped = getPrecedence(node.right) <= precedence && node.right.type === 'binary' ? `(${rightText})` : rightText
+        return [applyOperator(node, left, right), `${leftGrouped} ${node.operator} ${rightGrouped}`]
+      }
+      case 'dice': {
+        const rolls: DieRoll[] = Array.from({ length: node.count }, () => ({
+          value: rollResult[cursor++] ?? rollExtra(node.die),
+          rerolled: [],
+          exploded: false,
+          kept: true,
+        }))
+        applyModifiers(node, rolls, rollExtra)
+        const total = rolls.reduce((sum, roll) => sum + (roll.kept ? roll.value : 0), 0)
+        groups.push({ node, rolls, total })
+        const text = rolls.map(roll => roll.kept ? `${roll.value}` : `(${roll.value})`).join(', ')
+        return [total, `[${text}]`]
+      }
+    }
+  }
+
+  const [total, text] = evaluate(node)
+  return { total, groups, text: `${text} = ${total}` }
+}
+
+function applyModifiers(node: Extract<NotationNode, { type: 'dice' }>, rolls: DieRoll[], rollExtra: (die: DieType) => number) {
+  for (const modifier of node.modifiers) {
+    if (modifier.type === 'reroll') {
+      for (const roll of rolls) {
+        while (matches(roll.value, modifier.compare) && roll.rerolled.length < MAX_EXTRA_ROLLS) {
+          roll.rerolled.push(roll.value)
+          roll.value = rollExtra(node.die)
+          if (modifier.once)
+            break
+        }
+      }
+    }
+    else if (modifier.type === 'explode') {
+      let extra = 0
+      for (let i = 0; i < rolls.length && extra < MAX_EXTRA_ROLLS; i++) {
+        if (matches(rolls[i].value, modifier.compare)) {
+          rolls.push({ value: rollExtra(node.die), rerolled: [], exploded: true, kept: true })
+          extra++
+        }
+      }
+    }
+    else {
+      const sorted = rolls.filter(roll => roll.kept).sort((a, b) => modifier.highest ? b.value - a.value : a.value - b.value)
+      const selected = sorted.slice(0, modifier.count)
+      const affected = modifier.type === 'keep' ? sorted.filter(roll => !selected.includes(roll)) : selected
+      affected.forEach(roll => roll.kept = false)
+    }
+  }
+}
+
+function getPrecedence(node: NotationNode) {
+  if (node.type !== 'binary')
+    return 3
+  return node.operator === '+' || node.operator === '-' ? 1 : 2
+}
+
+function applyOperator({ operator, position }: Extract<NotationNode, { type: 'binary' }>, left: number, right: number) {
+  switch (operator) {
+    case '+': return left + right
+    case '-': return left - right
+    case '*': return left * right
+    case '/':
+      if (right === 0)
+        throw new NotationError('Division by zero', position)
+      return Math.trunc(left / right)
+  }
+}
+
+/** The value of every face, in order, so that a random index rolls the die; 1 to n for standard dice */
+function getRollableValues(die: DieType) {
+  return getDieDefinition(die).faces.map(face => face.value).sort((a, b) => a - b)
+}
+
+function matches(value: number, { operator, value: target }: ComparePoint) {
+  switch (operator) {
+    case '=': return value === target
+    case '<': return value <= target
+    case '>': return value >= target
+  }
+}
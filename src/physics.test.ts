@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PHYSICS, PHYSICS_PRESETS, PHYSICS_PRESET_NAMES, PHYSICS_PRESET_SURFACES, getPhysicsPreset, isValidPhysics, parsePhysics, serializePhysics } from './physics'
+import { DEFAULT_TRAY, isValidTray } from './tray'
+
+describe('parsePhysics', () => {
+  it('reads preset names and JSON', () => {
+    expect(parsePhysics('low-gravity')).toEqual(PHYSICS_PRESETS['low-gravity'])
+    expect(parsePhysics('low-gravity')).not.toBe(PHYSICS_PRESETS['low-gravity'])
+    expect(parsePhysics('{"gravity":-20}')).toEqual({ ...DEFAULT_PHYSICS, gravity: -20 })
+  })
+
+  it('round trips through serializePhysics', () => {
+    PHYSICS_PRESET_NAMES.forEach(name => expect(serializePhysics(PHYSICS_PRESETS[name])).toBe(name))
+    const custom = { ...DEFAULT_PHYSICS, friction: 0.9 }
+    expect(getPhysicsPreset(custom)).toBeUndefined()
+    expect(parsePhysics(serializePhysics(custom))).toEqual(custom)
+  })
+
+  it('rejects anything but valid physics', () => {
+    const invalid = [
+      '',
+      'moon',
+      'toString',
+      '__proto__',
+      'null',
+      '-50',
+      '"default"',
+      '[]',
+      '{"gravity":0}',
+      '{"gravity":"-50"}',
+      '{"restitution":2}',
+      '{"dieMass":0}',
+      '{"sleepTimeLimit":null}',
+      '{"minImpulse":10,"maxImpulse":5}',
+    ]
+    invalid.forEach(text => expect(parsePhysics(text), text).toBeUndefined())
+  })
+})
+
+describe('isValidPhysics', () => {
+  it('accepts every preset', () => {
+    PHYSICS_PRESET_NAMES.forEach(name => expect(isValidPhysics(PHYSICS_PRESETS[name]), name).toBe(true))
+  })
+})
+
+describe('preset surfaces', () => {
+  it('make a valid tray for every preset', () => {
+    PHYSICS_PRESET_NAMES.forEach(name => expect(isValidTray({ ...DEFAULT_TRAY, ...PHYSICS_PRESET_SURFACES[name] }), name).toBe(true))
+  })
+
+  it('bounce more with bouncier presets', () => {
+    const { floor: casino } = PHYSICS_PRESET_SURFACES['casino-craps']
+    const { floor: gentle } = PHYSICS_PRESET_SURFACES['gentle-tabletop']
+    expect(casino.restitution).toBeGreaterThan(DEFAULT_TRAY.floor.restitution)
+    expect(gentle.restitution).toBeLessThan(DEFAULT_TRAY.floor.restitution)
+  })
+})
@@ -0,0 +1,139 @@
+import type { TrayConfig } from './tray'
+import { DEFAULT_TRAY } from './tray'
+
+/**
+ * Physics parameters of a throw, apart from the tray. Every one of them changes the outcome of
+ * a seed, so they travel with it: in the URL, room rolls, the history and replay headers.
+ */
+
+export interface PhysicsConfig {
+  /** Vertical gravity, negative is down */
+  gravity: number
+  /** Bounciness between dice, the tray has its own per surface */
+  restitution: number
+  /** Friction between dice, the tray has its own per surface */
+  friction: number
+  dieMass: number
+  /** Seconds a die has to stay nearly still before it falls asleep and is read */
+  sleepTimeLimit: number
+  /** Speed below which a die counts as nearly still */
+  sleepSpeedLimit: number
+  linearDamping: number
+  angularDamping: number
+  /** Range of the random impulse of a throw that was not made by hand */
+  minImpulse: number
+  maxImpulse: number
+}
+
+export type PhysicsPreset = 'default' | 'casino-craps' | 'gentle-tabletop' | 'low-gravity'
+
+export const PHYSICS_PRESETS: Record<PhysicsPreset, PhysicsConfig> = {
+  'default': {
+    gravity: -50,
+    restitution: 0.3,
+    friction: 0.3,
+    dieMass: 1,
+    sleepTimeLimit: 0.1,
+    sleepSpeedLimit: 0.1,
+    linearDamping: 0.01,
+    angularDamping: 0.01,
+    minImpulse: 3,
+    maxImpulse: 13,
+  },
+  // Hard throws that are still tumbling when they hit the back wall, bouncy with its tray surfaces
+  'casino-craps': {
+    gravity: -60,
+    restitution: 0.5,
+    friction: 0.2,
+    dieMass: 1,
+    sleepTimeLimit: 0.2,
+    sleepSpeedLimit: 0.1,
+    linearDamping: 0.01,
+    angularDamping: 0.01,
+    minImpulse: 10,
+    maxImpulse: 25,
+  },
+  // Dice dropped from the hand that barely bounce off its soft tray surfaces
+  'gentle-tabletop': {
+    gravity: -40,
+    restitution: 0.15,
+    friction: 0.5,
+    dieMass: 1,
+    sleepTimeLimit: 0.1,
+    sleepSpeedLimit: 0.1,
+    linearDamping: 0.1,
+    angularDamping: 0.1,
+    minImpulse: 1,
+    maxImpulse: 5,
+  },
+  'low-gravity': {
+    gravity: -8,
+    restitution: 0.3,
+    friction: 0.3,
+    dieMass: 1,
+    sleepTimeLimit: 0.3,
+    sleepSpeedLimit: 0.1,
+    linearDamping: 0.01,
+    angularDamping: 0.01,
+    minImpulse: 1,
+    maxImpulse: 4,
+  },
+}
+
+export const PHYSICS_PRESET_NAMES = Object.keys(PHYSICS_PRESETS) as PhysicsPreset[]
+
+/**
+ * The floor and walls that go with each preset. Dice bounce off the tray far more often than
+ * off each other, so a preset only plays as described with its surfaces; picking a preset sets
+ * them on the tray, they are not part of `PhysicsConfig`.
+ */
+export const PHYSICS_PRESET_SURFACES: Record<PhysicsPreset, Pick<TrayConfig, 'floor' | 'walls'>> = {
+  'default': { floor: DEFAULT_TRAY.floor, walls: DEFAULT_TRAY.walls },
+  'casino-craps': { floor: { friction: 0.2, restitution: 0.5 }, walls: { friction: 0.2, restitution: 0.7 } },
+  'gentle-tabletop': { floor: { friction: 0.6, restitution: 0.1 }, walls: { friction: 0.5, restitution: 0.15 } },
+  'low-gravity': { floor: DEFAULT_TRAY.floor, walls: DEFAULT_TRAY.walls },
+}
+
+export const DEFAULT_PHYSICS = PHYSICS_PRESETS.default
+
+export function isValidPhysics(physics: PhysicsConfig): physics is PhysicsConfig {
+  const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max
+  return !!physics
+    && inRange(physics.gravity, -200, -1)
+    && inRange(physics.restitution, 0, 1)
+    && inRange(physics.friction, 0, 2)
+    && inRange(physics.dieMass, 0.1, 100)
+    && inRange(physics.sleepTimeLimit, 0.01, 5)
+    && inRange(physics.sleepSpeedLimit, 0.01, 5)
+    && inRange(physics.linearDamping, 0, 1)
+    && inRange(physics.angularDamping, 0, 1)
+    && inRange(physics.minImpulse, 0, 100)
+    && inRange(physics.maxImpulse, physics.minImpulse, 100)
+}
+
+/** The name of the preset `physics` is equal to, if any */
+export function getPhysicsPreset(physics: PhysicsConfig): PhysicsPreset | undefined {
+  return PHYSICS_PRESET_NAMES.find(name =>
+    (Object.keys(physics) as (keyof PhysicsConfig)[]).every(key => PHYSICS_PRESETS[name][key] === physics[key]))
+}
+
+/** URL form: the preset name if it is one, JSON otherwise */
+export function serializePhysics(physics: PhysicsConfig) {
+  return getPhysicsPreset(physics) ?? JSON.stringify(physics)
+}
+
+export function parsePhysics(text: string): PhysicsConfig | undefined {
+  if (Object.hasOwn(PHYSICS_PRESETS, text))
+    return { ...PHYSICS_PRESETS[text as PhysicsPreset] }
+  try {
+    const parsed = JSON.parse(text)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))
+      return undefined
+    const physics = { ...DEFAULT_PHYSICS, ...parsed }
+    return isValidPhysics(physics) ? physics : undefined
+  }
+  catch {
+    // Neither a preset nor JSON
+    return undefined
+  }
+}
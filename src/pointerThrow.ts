@@ -0,0 +1,123 @@
+import * as THREE from 'three'
+import type { ThrowDescriptor } from './simulation'
+import { START_HEIGHT, createThrowDescriptor, getHeldDiceOffsets } from './simulation'
+
+/**
+ * Picking the dice up with the mouse or a finger and flinging them. The pointer is projected
+ * onto a horizontal plane at the dice start height; on release the last moments of the
+ * gesture become the throw velocity, and the spin is what the dice would get rolling off the
+ * hand in that direction.
+ */
+
+export interface PointerThrowOptions {
+  /** The camera may be swapped at runtime, so it is looked up on every event */
+  getCamera: () => THREE.Camera
+  /** The dice, moved while they are held */
+  dice: THREE.Object3D[]
+  /** Raycast against to pick the dice up, e.g. the meshes drawing them */
+  targets: THREE.Object3D[]
+  /** Called when the dice are picked up, e.g. to stop the animation of the previous throw */
+  onPickUp: () => void
+  /** Called whenever the held dice moved and need to be rendered */
+  onMove: () => void
+  onThrow: (descriptor: ThrowDescriptor) => void
+}
+
+// Only the end of the gesture counts towards the throw velocity
+const VELOCITY_WINDOW = 100
+// Rotation per unit of distance moved, for both the held dice and the throw
+const SPIN = 1.2
+
+interface Sample {
+  time: number
+  point: THREE.Vector3
+}
+
+/** Starts listening for throws on `canvas`, returns a function to stop again */
+export function initPointerThrow(canvas: HTMLCanvasElement, options: PointerThrowOptions) {
+  const raycaster = new THREE.Raycaster()
+  const holdPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -START_HEIGHT)
+  const up = new THREE.Vector3(0, 1, 0)
+  let pointerId: number | undefined
+  let samples: Sample[] = []
+
+  const castRay = (event: PointerEvent) => {
+    const rect = canvas.getBoundingClientRect()
+    raycaster.setFromCamera(new THREE.Vector2(
+      (event.clientX - rect.left) / rect.width * 2 - 1,
+      -(event.clientY - rect.top) / rect.height * 2 + 1,
+    ), options.getCamera())
+    return raycaster.ray
+  }
+
+  const hold = (point: THREE.Vector3) => {
+    const offsets = getHeldDiceOffsets(options.dice.length)
+    const previous = samples[samples.length - 1]?.point ?? point
+    const moved = point.clone().sub(previous)
+    const rotation = new THREE.Quaternion().setFromAxisAngle(up.clone().cross(moved).normalize(), moved.length() * SPIN)
+    options.dice.forEach((die, i) => {
+      die.position.copy(point).add(new THREE.Vector3(...offsets[i]))
+      die.quaternion.premultiply(rotation)
+    })
+    options.onMove()
+  }
+
+  const onPointerDown = (event: PointerEvent) => {
+    const ray = castRay(event)
+    if (pointerId !== undefined || raycaster.intersectObjects(options.targets, true).length === 0)
+      return
+    const point = ray.intersectPlane(holdPlane, new THREE.Vector3())
+    if (!point)
+      return
+
+    // Listening in the capture phase, so camera controls on the canvas don't start dragging too
+    event.stopImmediatePropagation()
+    pointerId = event.pointerId
+    canvas.setPointerCapture(pointerId)
+    samples = []
+    options.onPickUp()
+    hold(point)
+    samples.push({ time: event.timeStamp, point })
+  }
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== pointerId)
+      return
+    const point = castRay(event).intersectPlane(holdPlane, new THREE.Vector3())
+    if (!point)
+      return
+    hold(point)
+    samples.push({ time: event.timeStamp, point })
+    samples = samples.filter(sample => event.timeStamp - sample.time <= VELOCITY_WINDOW)
+  }
+
+  const onPointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== pointerId)
+      return
+    pointerId = undefined
+
+    // Holding still before letting go is a drop, not a throw
+    samples.push({ time: event.timeStamp, point: samples[samples.length - 1].point })
+    samples = samples.filter(sample => event.timeStamp - sample.time <= VELOCITY_WINDOW)
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const seconds = (last.time - first.time) / 1000
+    const velocity = seconds > 0
+      ? last.point.clone().sub(first.point).divideScalar(seconds)
+      : new THREE.Vector3()
+    const angularVelocity = up.clone().cross(velocity).multiplyScalar(SPIN)
+    options.onThrow(createThrowDescriptor(last.point.toArray(), velocity.toArray(), angularVelocity.toArray()))
+  }
+
+  canvas.addEventListener('pointerdown', onPointerDown, { capture: true })
+  canvas.addEventListener('pointermove', onPointerMove)
+  canvas.addEventListener('pointerup', onPointerUp)
+  canvas.addEventListener('pointercancel', onPointerUp)
+
+  return () => {
+    canvas.removeEventListener('pointerdown', onPointerDown, { capture: true })
+    canvas.removeEventListener('pointermove', onPointerMove)
+    canvas.removeEventListener('pointerup', onPointerUp)
+    canvas.removeEventListener('pointercancel', onPointerUp)
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Records rendered canvas frames into an animated GIF and, where `MediaRecorder` is available,
+ * a WebM video. Frames are handed in explicitly after each render, so a fixed frame rate
+ * render loop produces a recording with exactly those frames.
+ */
+
+export interface RecorderOptions {
+  /** Color the (transparent) canvas is composited onto in the GIF */
+  background: string
+  /** The GIF is downscaled to at most this width */
+  maxGifWidth: number
+  /** Frame rate hint for the WebM stream */
+  fps: number
+}
+
+export interface Recording {
+  gif: Blob
+  webm?: Blob
+  frameCount: number
+}
+
+export interface FrameRecorder {
+  /** Captures the canvas as it is now, `time` is the frame's presentation time in milliseconds */
+  captureFrame: (time: number) => void
+  /** Finishes encoding; the last frame is held for `holdTime` milliseconds before the GIF loops */
+  stop: (holdTime?: number) => Promise<Recording>
+  /** Stops without producing a recording */
+  cancel: () => void
+}
+
+// Browsers slow down GIF frames with a delay below 2 centiseconds, so faster frames are dropped
+const MIN_GIF_DELAY = 20
+
+export function startRecording(canvas: HTMLCanvasElement, { background, maxGifWidth, fps }: RecorderOptions): FrameRecorder {
+  const scale = Math.min(1, maxGifWidth / canvas.width)
+  const width = Math.max(1, Math.round(canvas.width * scale))
+  const height = Math.max(1, Math.round(canvas.height * scale))
+  const gif = new GifEncoder(width, height)
+
+  const frameCanvas = document.createElement('canvas')
+  frameCanvas.width = width
+  frameCanvas.height = height
+  const frameContext = frameCanvas.getContext('2d', { willReadFrequently: true })!
+
+  const webm = startWebmRecording(canvas, fps)
+
+  let pending: { pixels: Uint8Array, time: number } | undefined
+  let frameCount = 0
+
+  return {
+    captureFrame(time) {
+      webm?.track.requestFrame()
+      if (pending && time - pending.time < MIN_GIF_DELAY)
+        return
+
+      frameContext.fillStyle = background
+      frameContext.fillRect(0, 0, width, height)
+      frameContext.drawImage(canvas, 0, 0, width, height)
+      const pixels = quantize(frameContext.getImageData(0, 0, width, height).data)
+
+      if (pending)
+        gif.addFrame(pending.pixels, time - pending.time)
+      pending = { pixels, time }
+      frameCount++
+    },
+    async stop(holdTime = 2000) {
+      if (pending)
+        gif.addFrame(pending.pixels, holdTime)
+      return {
+        gif: gif.finish(),
+        webm: await webm?.stop(),
+        frameCount,
+      }
+    },
+    cancel() {
+      webm?.stop()
+    },
+  }
+}
+
+function startWebmRecording(canvas: HTMLCanvasElement, fps: number) {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm'))
+    return undefined
+
+  // A frame rate of 0 only emits frames on `requestFrame`, so the video has exactly the rendered frames
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm', videoBitsPerSecond: 8_000_000 })
+  const chunks: Blob[] = []
+  recorder.addEventListener('dataavailable', event => chunks.push(event.data))
+  recorder.start(1000 / fps)
+
+  return {
+    track,
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.addEventListener('stop', () => {
+        track.stop()
+        resolve(new Blob(chunks, { type: 'video/webm' }))
+      })
+      recorder.stop()
+    }),
+  }
+}
+
+/** Maps RGBA pixels onto the fixed 6x7x6 color cube palette of `GifEncoder` */
+function quantize(rgba: Uint8ClampedArray) {
+  const pixels = new Uint8Array(rgba.length / 4)
+  for (let i = 0; i < pixels.length; i++) {
+    const r = Math.round(rgba[i * 4] / 255 * 5)
+    const g = Math.round(rgba[i * 4 + 1] / 255 * 6)
+    const b = Math.round(rgba[i * 4 + 2] / 255 * 5)
+    pixels[i] = r * 42 + g * 6 + b
+  }
+  return pixels
+}
+
+/** Minimal GIF89a writer: one global palette, LZW compressed frames, looping forever */
+class GifEncoder {
+  private chunks: Uint8Array[] = []
+
+  constructor(private width: number, private height: number) {
+    const palette = new Uint8Array(256 * 3)
+    for (let r = 0; r < 6; r++) {
+      for (let g = 0; g < 7; g++) {
+        for (let b = 0; b < 6; b++)
+          palette.set([r * 51, Math.round(g * 42.5), b * 51], (r * 42 + g * 6 + b) * 3)
+      }
+    }
+
+    this.write([...'GIF89a'].map(c => c.charCodeAt(0)))
+    this.write([...uint16(width), ...uint16(height), 0xF7, 0, 0])
+    this.write(palette)
+    // NETSCAPE2.0 application extension: loop forever
+    this.write([0x21, 0xFF, 0x0B, ...[...'NETSCAPE2.0'].map(c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0])
+  }
+
+  addFrame(pixels: Uint8Array, delay: number) {
+    // Graphic control extension with the delay in centiseconds
+    this.write([0x21, 0xF9, 0x04, 0x04, ...uint16(Math.round(delay / 10)), 0, 0])
+    // Image descriptor covering the whole canvas
+    this.write([0x2C, 0, 0, 0, 0, ...uint16(this.width), ...uint16(this.height), 0])
+    this.write([8])
+    const data = lzwEncode(pixels, 8)
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255)
+      this.write([block.length])
+      this.write(block)
+    }
+    this.write([0])
+  }
+
+  finish() {
+    this.write([0x3B])
+    return new Blob(this.chunks, { type: 'image/gif' })
+  }
+
+  private write(bytes: ArrayLike<number>) {
+    this.chunks.push(Uint8Array.from(bytes))
+  }
+}
+
+function uint16(value: number) {
+  return [value & 0xFF, (value >> 8) & 0xFF]
+}
+
+function lzwEncode(pixels: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const output: number[] = []
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+
+  let buffer = 0
+  let bits = 0
+  const emit = (code: number) => {
+    buffer |= code << bits
+    bits += codeSize
+    while (bits >= 8) {
+      output.push(buffer & 0xFF)
+      buffer >>>= 8
+      bits -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = pixels[0]
+  for (let i = 1; i < pixels.length; i++) {
+    const key = (prefix << 8) | pixels[i]
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === 4096) {
+      emit(clearCode)
+      table = new Map()
+      nextCode = endCode + 1
+      codeSize = minCodeSize + 1
+    }
+    else {
+      if (nextCode >= 1 << codeSize)
+        codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = pixels[i]
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bits > 0)
+    output.push(buffer & 0xFF)
+
+  return Uint8Array.from(output)
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { Replay } from './replay'
+import { ReplayError, createReplay, decodeReplay, encodeReplay } from './replay'
+import type { SimulationResult } from './simulation'
+import { appendFrame, createTrack, getPose } from './simulationTrack'
+
+function createTestReplay(): Replay {
+  const track = createTrack(2)
+  for (let frame = 0; frame < 20; frame++) {
+    const angle = Math.min(frame, 12) * 0.1
+    appendFrame(track, [
+      { position: { x: frame * 0.5, y: 10 - frame * 0.4, z: -2 }, quaternion: { x: 0, y: Math.sin(angle), z: 0, w: Math.cos(angle) } },
+      // Comes to rest after 5 frames
+      { position: { x: -3, y: Math.max(1, 6 - frame), z: 1 }, quaternion: { x: 0, y: 0, z: 0, w: 1 } },
+    ])
+  }
+  const result = { seed: 'abc#1', requestedSeed: 'abc', rollResult: [4, 2], track } as SimulationResult
+  return createReplay(result, { dice: ['d6', 'd20'], stepRate: 60, notation: 'd6+d20' })
+}
+
+/** A valid replay with its header replaced by `header` */
+function withHeader(header: unknown) {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const buffer = new ArrayBuffer(10 + headerBytes.length)
+  const view = new DataView(buffer)
+  'DRPL'.split('').forEach((char, i) => view.setUint8(i, char.charCodeAt(0)))
+  view.setUint16(4, 1, true)
+  view.setUint32(6, headerBytes.length, true)
+  new Uint8Array(buffer, 10).set(headerBytes)
+  return buffer
+}
+
+describe('replays', () => {
+  it('survive encoding and decoding', () => {
+    const replay = createTestReplay()
+    const decoded = decodeReplay(encodeReplay(replay))
+    expect(decoded.header).toEqual(replay.header)
+    expect(decoded.track.frameCount).toBe(20)
+
+    const expected = { position: { x: 0, y: 0, z: 0 }, quaternion: { x: 0, y: 0, z: 0, w: 1 } }
+    const actual = { position: { x: 0, y: 0, z: 0 }, quaternion: { x: 0, y: 0, z: 0, w: 1 } }
+    for (let frame = 0; frame < 20; frame++) {
+      for (let die = 0; die < 2; die++) {
+        getPose(replay.track, frame, die, expected.position, expected.quaternion)
+        getPose(decoded.track, frame, die, actual.position, actual.quaternion)
+        // Positions are quantized to 16 bits across the bounds, quaternions by 32767
+        Object.entries(expected.position).forEach(([axis, value]) =>
+          expect(actual.position[axis as 'x']).toBeCloseTo(value, 3))
+        Object.entries(expected.quaternion).forEach(([axis, value]) =>
+          expect(actual.quaternion[axis as 'x']).toBeCloseTo(value, 4))
+      }
+    }
+  })
+
+  it('keep dice that came to rest at rest', () => {
+    const decoded = decodeReplay(encodeReplay(createTestReplay()))
+    expect(decoded.track.lengths[1]).toBe(6)
+  })
+
+  it('are rejected when cut short anywhere', () => {
+    const buffer = encodeReplay(createTestReplay())
+    for (const length of [0, 4, 9, 10, 40, buffer.byteLength - 1])
+      expect(() => decodeReplay(buffer.slice(0, length))).toThrow(ReplayError)
+  })
+
+  it('are rejected with another magic or version', () => {
+    const buffer = encodeReplay(createTestReplay())
+    const wrongMagic = buffer.slice(0)
+    new DataView(wrongMagic).setUint8(0, 0)
+    expect(() => decodeReplay(wrongMagic)).toThrow('Not a dice replay file')
+    const wrongVersion = buffer.slice(0)
+    new DataView(wrongVersion).setUint16(4, 99, true)
+    expect(() => decodeReplay(wrongVersion)).toThrow('Unsupported replay version')
+  })
+
+  it('are rejected with an invalid header', () => {
+    const { header } = createTestReplay()
+    const invalid = [
+      null,
+      'header',
+      { ...header, dice: ['d7'] },
+      { ...header, dice: [] },
+      { ...header, frameCount: -1 },
+      { ...header, frameCount: 1.5 },
+      { ...header, bounds: [[0, 0, 0]] },
+      { ...header, bounds: [[0, 0, 0], [1, 1, null]] },
+      { ...header, notation: 2 },
+      { ...header, throw: null },
+      { ...header, throw: { origin: [0, 1, 0], velocity: [1, 0] } },
+      { ...header, throw: { origin: [0, 1, 0], velocity: [1, 0, 0], angularVelocity: [0, 'spin', 0] } },
+    ]
+    invalid.forEach(invalidHeader => expect(() => decodeReplay(withHeader(invalidHeader))).toThrow(ReplayError))
+    expect(() => decodeReplay(withHeader({ ...header, frameCount: 0 }))).not.toThrow()
+    const throwDescriptor = { origin: [0, 1, 0], velocity: [1, 0, 0], angularVelocity: [0, 2, 0] }
+    expect(decodeReplay(withHeader({ ...header, frameCount: 0, notation: '2d6', throw: throwDescriptor })).header)
+      .toMatchObject({ notation: '2d6', throw: throwDescriptor })
+  })
+
+  it('are rejected with a header that is not JSON', () => {
+    const buffer = withHeader(createTestReplay().header)
+    new Uint8Array(buffer, 10, 1)[0] = 0x7B + 1
+    expect(() => decodeReplay(buffer)).toThrow(ReplayError)
+  })
+})
@@ -0,0 +1,218 @@
+import type { DieType } from './dice'
+import { isDieType } from './dice'
+import type { PhysicsConfig } from './physics'
+import { isValidPhysics } from './physics'
+import type { SimulationResult, ThrowDescriptor } from './simulation'
+import type { Pose, SimulationTrack } from './simulationTrack'
+import { appendFrame, createTrack, decimateTrack, getPose } from './simulationTrack'
+import type { TrayConfig } from './tray'
+import { isValidTray } from './tray'
+
+/**
+ * Binary replay of a simulated throw, so a roll can be saved, shared and played back frame
+ * by frame without running the physics again.
+ *
+ * Layout (little endian):
+ * - magic `DRPL`, u16 format version, u32 header byte length
+ * - UTF-8 JSON `ReplayHeader`, zero padded to a multiple of 2 bytes
+ * - per frame, per die: position as 3 x i16 quantized to `header.bounds`,
+ *   quaternion as 4 x i16 scaled by 32767
+ */
+
+export const REPLAY_VERSION = 1
+export const REPLAY_FILE_EXTENSION = '.dicereplay'
+
+const MAGIC = 'DRPL'
+const PREAMBLE_BYTES = 4 + 2 + 4
+const VALUES_PER_DIE = 7
+const QUATERNION_SCALE = 32767
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReplayError'
+  }
+}
+
+export interface ReplayHeader {
+  version: number
+  seed: string
+  /** Seed the user asked for, `seed` may be a retry derived from it */
+  requestedSeed: string
+  dice: DieType[]
+  rollResult: number[]
+  notation?: string
+  /** Set for throws made by hand */
+  throw?: ThrowDescriptor
+  /** Physics the seed was simulated with, missing in replays from before it was configurable */
+  physics?: PhysicsConfig
+  tray?: TrayConfig
+  stepRate: number
+  frameCount: number
+  /** Axis aligned bounds all positions are quantized into, as [min, max] */
+  bounds: [[number, number, number], [number, number, number]]
+  createdAt: string
+}
+
+export interface Replay {
+  header: ReplayHeader
+  track: SimulationTrack
+}
+
+export function createReplay(
+  { seed, requestedSeed, rollResult, track }: SimulationResult,
+  { dice, stepRate, notation, throw: throwDescriptor, physics, tray }: { dice: DieType[], stepRate: number, notation?: string, throw?: ThrowDescriptor, physics?: PhysicsConfig, tray?: TrayConfig },
+): Replay {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity]
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity]
+  // The frames left out by decimation repeat a keyframe, so the keyframes are enough
+  track.lengths.forEach((length, die) => {
+    for (let keyframe = 0; keyframe < length; keyframe++) {
+      const i = (track.offsets[die] + keyframe) * VALUES_PER_DIE
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], track.data[i + axis])
+        max[axis] = Math.max(max[axis], track.data[i + axis])
+      }
+    }
+  })
+
+  return {
+    header: {
+      version: REPLAY_VERSION,
+      seed,
+      requestedSeed,
+      dice,
+      rollResult,
+      notation: notation || undefined,
+      throw: throwDescriptor,
+      physics,
+      tray,
+      stepRate,
+      frameCount: track.frameCount,
+      bounds: [min, max],
+      createdAt: new Date().toISOString(),
+    },
+    track,
+  }
+}
+
+export function encodeReplay({ header, track }: Replay): ArrayBuffer {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const headerLength = headerBytes.length + (headerBytes.length % 2)
+  const frameOffset = PREAMBLE_BYTES + headerLength
+  const buffer = new ArrayBuffer(frameOffset + track.frameCount * header.dice.length * VALUES_PER_DIE * 2)
+  const view = new DataView(buffer)
+
+  for (let i = 0; i < MAGIC.length; i++)
+    view.setUint8(i, MAGIC.charCodeAt(i))
+  view.setUint16(4, header.version, true)
+  view.setUint32(6, headerLength, true)
+  new Uint8Array(buffer, PREAMBLE_BYTES, headerBytes.length).set(headerBytes)
+
+  const [min, max] = header.bounds
+  const quantize = (value: number, axis: number) => {
+    const range = max[axis] - min[axis]
+    return range === 0 ? 0 : Math.round(((value - min[axis]) / range) * 65535) - 32768
+  }
+
+  let offset = frameOffset
+  const write = (value: number) => {
+    view.setInt16(offset, value, true)
+    offset += 2
+  }
+  const { position, quaternion } = createPose()
+  for (let frame = 0; frame < track.frameCount; frame++) {
+    for (let die = 0; die < track.diceCount; die++) {
+      getPose(track, frame, die, position, quaternion)
+      write(quantize(position.x, 0))
+      write(quantize(position.y, 1))
+      write(quantize(position.z, 2))
+      write(Math.round(quaternion.x * QUATERNION_SCALE))
+      write(Math.round(quaternion.y * QUATERNION_SCALE))
+      write(Math.round(quaternion.z * QUATERNION_SCALE))
+      write(Math.round(quaternion.w * QUATERNION_SCALE))
+    }
+  }
+
+  return buffer
+}
+
+export function decodeReplay(buffer: ArrayBuffer): Replay {
+  if (buffer.byteLength < PREAMBLE_BYTES)
+    throw new ReplayError('File is too short to be a replay')
+
+  const view = new DataView(buffer)
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, MAGIC.length))
+  if (magic !== MAGIC)
+    throw new ReplayError('Not a dice replay file')
+
+  const version = view.getUint16(4, true)
+  if (version !== REPLAY_VERSION)
+    throw new ReplayError(`Unsupported replay version ${version}, expected ${REPLAY_VERSION}`)
+
+  const headerLength = view.getUint32(6, true)
+  if (PREAMBLE_BYTES + headerLength > buffer.byteLength)
+    throw new ReplayError(`Replay header of ${headerLength} bytes does not fit into the file`)
+  const headerText = new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength)).replace(/\0+$/, '')
+  let header: ReplayHeader
+  try {
+    header = JSON.parse(headerText)
+  }
+  catch {
+    throw new ReplayError('Replay header is not valid JSON')
+  }
+  if (!isValidHeader(header))
+    throw new ReplayError('Replay header is missing fields or has invalid ones')
+
+  const frameOffset = PREAMBLE_BYTES + headerLength
+  const expectedLength = frameOffset + header.frameCount * header.dice.length * VALUES_PER_DIE * 2
+  if (buffer.byteLength !== expectedLength)
+    throw new ReplayError(`Replay is ${buffer.byteLength} bytes, expected ${expectedLength}`)
+
+  const [min, max] = header.bounds
+  const dequantize = (value: number, axis: number) => min[axis] + ((value + 32768) / 65535) * (max[axis] - min[axis])
+
+  let offset = frameOffset
+  const read = () => {
+    const value = view.getInt16(offset, true)
+    offset += 2
+    return value
+  }
+  const track = createTrack(header.dice.length, header.frameCount)
+  const poses = header.dice.map(createPose)
+  for (let frame = 0; frame < header.frameCount; frame++) {
+    poses.forEach(({ position, quaternion }) => {
+      position.x = dequantize(read(), 0)
+      position.y = dequantize(read(), 1)
+      position.z = dequantize(read(), 2)
+      const [x, y, z, w] = [read(), read(), read(), read()]
+      const length = Math.hypot(x, y, z, w) || 1
+      Object.assign(quaternion, { x: x / length, y: y / length, z: z / length, w: w / length })
+    })
+    appendFrame(track, poses)
+  }
+
+  return { header, track: decimateTrack(track) }
+}
+
+/** Checks what decoding and playing back relies on, the rest is only shown */
+function isValidHeader(header: ReplayHeader) {
+  const isVector = (vector: unknown) => Array.isArray(vector) && vector.length === 3 && vector.every(Number.isFinite)
+  const isThrow = (descriptor: ThrowDescriptor) => typeof descriptor === 'object' && descriptor !== null
+    && [descriptor.origin, descriptor.velocity, descriptor.angularVelocity].every(isVector)
+  return typeof header === 'object' && header !== null
+    && Array.isArray(header.dice) && header.dice.length >= 1 && header.dice.every(isDieType)
+    && Number.isInteger(header.frameCount) && header.frameCount >= 0
+    && Array.isArray(header.bounds) && header.bounds.length === 2 && header.bounds.every(isVector)
+    && Array.isArray(header.rollResult) && header.rollResult.every(Number.isFinite)
+    && typeof header.seed === 'string' && typeof header.requestedSeed === 'string'
+    && Number.isFinite(header.stepRate) && header.stepRate > 0
+    && (header.notation === undefined || typeof header.notation === 'string')
+    && (header.throw === undefined || isThrow(header.throw))
+    && (header.physics === undefined || isValidPhysics(header.physics))
+    && (header.tray === undefined || isValidTray(header.tray))
+}
+
+function createPose(): Pose {
+  return { position: { x: 0, y: 0, z: 0 }, quaternion: { x: 0, y: 0, z: 0, w: 1 } }
+}
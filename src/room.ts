@@ -0,0 +1,74 @@
+import type { ClientMessage, Player, RollConfig, RollEntry, ServerMessage } from './roomProtocol'
+
+/**
+ * Browser side of a shared roll room. Rolls are not simulated here: `roll` asks the server to
+ * broadcast a config with a seed it picks, and everyone (the roller included) animates on
+ * `onRoll`.
+ */
+
+export interface RoomHandlers {
+  /** Called once joined, with the rolls made before this client arrived (oldest first) */
+  onJoined?: (player: Player, players: Player[], log: RollEntry[]) => void
+  onRoll?: (entry: RollEntry) => void
+  onPlayersChanged?: (players: Player[]) => void
+  onError?: (message: string) => void
+  onClose?: () => void
+}
+
+export interface RoomConnection {
+  readonly room: string
+  players: () => Player[]
+  log: () => RollEntry[]
+  roll: (config: RollConfig) => void
+  leave: () => void
+}
+
+export function joinRoom(url: string, room: string, name: string, handlers: RoomHandlers = {}): RoomConnection {
+  const socket = new WebSocket(url)
+  let players: Player[] = []
+  const log: RollEntry[] = []
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN)
+      socket.send(JSON.stringify(message))
+  }
+
+  socket.addEventListener('open', () => send({ type: 'join', room, name }))
+  socket.addEventListener('close', () => handlers.onClose?.())
+  socket.addEventListener('message', (event) => {
+    const message: ServerMessage = JSON.parse(event.data)
+    switch (message.type) {
+      case 'joined':
+        players = message.players
+        log.push(...message.log)
+        handlers.onJoined?.(message.player, players, message.log)
+        break
+      case 'player-joined':
+        players = [...players, message.player]
+        handlers.onPlayersChanged?.(players)
+        break
+      case 'player-left':
+        players = players.filter(player => player.id !== message.player.id)
+        handlers.onPlayersChanged?.(players)
+        break
+      case 'roll':
+        log.push(message.entry)
+        handlers.onRoll?.(message.entry)
+        break
+      case 'error':
+        handlers.onError?.(message.message)
+        break
+    }
+  })
+
+  return {
+    room,
+    players: () => players,
+    log: () => log,
+    roll: config => send({ type: 'roll', config }),
+    leave: () => {
+      send({ type: 'leave' })
+      socket.close()
+    },
+  }
+}
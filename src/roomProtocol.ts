@@ -0,0 +1,54 @@
+import type { DieType } from './dice'
+import type { PhysicsConfig } from './physics'
+import type { TableRules, ThrowDescriptor } from './simulation'
+import type { TrayConfig } from './tray'
+
+/**
+ * Messages of the shared roll room protocol. A throw is deterministic given its seed and dice
+ * config, so rooms only pass those around and every client simulates and animates locally.
+ */
+
+export interface RollConfig {
+  dice: DieType[]
+  notation?: string
+  /** Set for magic rolls, which are never shared in a room */
+  desiredRolls?: number[]
+  /** Set for throws made by hand */
+  throw?: ThrowDescriptor
+  tableRules?: TableRules
+  physics?: PhysicsConfig
+  tray?: TrayConfig
+}
+
+export interface Player {
+  id: string
+  name: string
+}
+
+export interface RollEntry {
+  id: number
+  player: Player
+  /** Milliseconds since the epoch, as seen by the server */
+  timestamp: number
+  seed: string
+  config: RollConfig
+}
+
+export type ClientMessage =
+  | { type: 'join', room: string, name: string }
+  | { type: 'leave' }
+  /**
+   * The server picks the seed and refuses magic rolls (`desiredRolls`), so no player can
+   * choose their own outcome
+   */
+  | { type: 'roll', config: RollConfig }
+
+export type ServerMessage =
+  /** Sent to a player after joining, with the room's roll log so late joiners can catch up */
+  | { type: 'joined', room: string, player: Player, players: Player[], log: RollEntry[] }
+  | { type: 'player-joined', player: Player }
+  | { type: 'player-left', player: Player }
+  | { type: 'roll', entry: RollEntry }
+  | { type: 'error', message: string }
+
+export const DEFAULT_ROOM_PORT = 8787
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { DieType } from './dice'
+import { deriveRetrySeed, simulateThrow, verifyRoll } from './simulation'
+import { DEFAULT_TRAY } from './tray'
+
+const dice: DieType[] = ['d6', 'd20', 'd8']
+
+describe('simulateThrow', () => {
+  it('throws the same seed the same way', () => {
+    const first = simulateThrow({ dice, seed: 'abc' })
+    const second = simulateThrow({ dice, seed: 'abc' })
+    expect(second.rollResult).toEqual(first.rollResult)
+    expect(second.track).toEqual(first.track)
+    expect(first.seed).toBe('abc')
+    expect(first.rollResult).toHaveLength(3)
+  })
+
+  it('bounces dice off the floor as its restitution says', () => {
+    const throwOnto = (restitution: number) =>
+      simulateThrow({ dice: ['d6'], seed: 'bounce', tray: { ...DEFAULT_TRAY, floor: { ...DEFAULT_TRAY.floor, restitution } } })
+    const dead = throwOnto(0)
+    const bouncy = throwOnto(0.9)
+    expect(bouncy.track).not.toEqual(dead.track)
+    // Bouncing keeps the die moving for longer
+    expect(bouncy.track.frameCount).toBeGreaterThan(dead.track.frameCount)
+  })
+
+  it('retries with derived seeds and reports the one that was used', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    // Every attempt runs out of steps, so all retries are used up
+    const tableRules = { cocked: 'nudge', outOfBounds: 'reroll-die', timedOut: 'reroll-all' } as const
+    const result = simulateThrow({ dice, seed: 'abc', maxSteps: 5, maxRetries: 2, tableRules })
+    expect(result.requestedSeed).toBe('abc')
+    expect(result.seed).toBe('abc#2')
+    expect(result.retries).toBe(2)
+    expect(result.failedAttempts).toEqual(['timed-out', 'timed-out'])
+    expect(warn.mock.calls.map(([message]) => message).filter(message => message.includes('retrying'))).toEqual([
+      expect.stringContaining('with seed abc,'),
+      expect.stringContaining('with seed abc#1,'),
+    ])
+    expect(verifyRoll('abc', { dice, maxSteps: 5, maxRetries: 2, tableRules }, result.rollResult)).toMatchObject({ valid: true, seed: 'abc#2' })
+    warn.mockRestore()
+  })
+})
+
+describe('deriveRetrySeed', () => {
+  it('keeps the seed for the first attempt', () => {
+    expect(deriveRetrySeed('abc', 0)).toBe('abc')
+    expect(deriveRetrySeed('abc', 3)).toBe('abc#3')
+  })
+})
+
+describe('verifyRoll', () => {
+  it('accepts the result the seed gives and rejects any other', () => {
+    const { rollResult } = simulateThrow({ dice, seed: 'abc' })
+    expect(verifyRoll('abc', { dice }, rollResult)).toEqual({ valid: true, expectedResult: rollResult, actualResult: rollResult, seed: 'abc' })
+
+    const tampered = rollResult.map((value, i) => i === 0 ? value % 6 + 1 : value)
+    expect(verifyRoll('abc', { dice }, tampered).valid).toBe(false)
+    expect(verifyRoll('abc', { dice }, rollResult.slice(1)).valid).toBe(false)
+  })
+})
@@ -0,0 +1,663 @@
+import * as CANNON from 'cannon-es'
+import seedrandom from 'seedrandom'
+import type { DieType, FaceReading, QuaternionLike, Vec3Tuple } from './dice'
+import { FACE_UP_TOLERANCE, createDieShape, findFaceByValue, getDieDefinition, getSymmetryRotation, readFace } from './dice'
+import type { PhysicsConfig } from './physics'
+import { DEFAULT_PHYSICS } from './physics'
+import type { SimulationTrack } from './simulationTrack'
+import { appendFrame, createTrack, decimateTrack } from './simulationTrack'
+import type { TrayConfig } from './tray'
+import { DEFAULT_TRAY } from './tray'
+
+/**
+ * Headless dice physics. Nothing in here may touch three.js or the DOM, so the exact roll
+ * a client will animate can also be produced in Node (server-side rolls, tests).
+ */
+
+export interface SimulationConfig {
+  dice: DieType[]
+  seed: string
+  physics: PhysicsConfig
+  tray: TrayConfig
+  floorY: number
+  /** Physics steps per simulated second */
+  stepRate: number
+  /**
+   * Step budget before an attempt counts as timed out. Counted in steps rather than wall clock
+   * time so that a slow device gives up at exactly the same point as a fast one.
+   */
+  maxSteps: number
+  /** Attempts with a derived seed after the first one got stuck or was re-rolled as a whole */
+  maxRetries: number
+  /** What happens to dice that don't settle cleanly */
+  tableRules: TableRules
+  /** Radians a resting die may be tilted from a face before it counts as cocked */
+  cockedTolerance: number
+  /**
+   * Per-die symmetry rotation applied on top of the random initial orientation, see
+   * `simulateMagicThrow`. Leaves the trajectory alone and only changes which face lands up.
+   */
+  orientationRemap?: (QuaternionLike | undefined)[]
+  /** Throw the dice by hand instead of with the seeded random impulse */
+  throw?: ThrowDescriptor
+  /**
+   * Called with the track of the attempt whenever a frame was appended to it, e.g. to stream
+   * the new frames to the renderer. A higher `retry` means the attempt before was given up and
+   * its frames are void.
+   */
+  onFrame?: (track: SimulationTrack, retry: number) => void
+}
+
+/**
+ * A throw reduced from a pointer gesture. Only plain numbers, so it can go into a URL, the
+ * history or a room message; `createThrowDescriptor` rounds it, so the serialized throw is
+ * exactly the one that was simulated.
+ */
+export interface ThrowDescriptor {
+  /** Center of the held dice when they were let go */
+  origin: Vec3Tuple
+  velocity: Vec3Tuple
+  angularVelocity: Vec3Tuple
+}
+
+/** `settled` once every die has an outcome, otherwise why the attempt was given up */
+export type SimulationStatus = 'settled' | 'stuck' | 'timed-out' | 'cocked' | 'out-of-bounds'
+
+/**
+ * How a single die ended up: flat on a face, resting tilted against a wall or another die,
+ * outside the box, or still moving when its step budget ran out.
+ */
+export type DieOutcome = 'settled' | 'cocked' | 'out-of-bounds' | 'timed-out'
+
+/**
+ * - `reroll-die`: throw just that die again, the others stay where they are
+ * - `reroll-all`: give up the attempt, so the throw is retried with a derived seed
+ * - `nearest`: accept the face it is closest to
+ */
+export type TableRule = 'reroll-die' | 'reroll-all' | 'nearest'
+
+export interface TableRules {
+  /** Cocked dice can also be `nudge`d over with a small seeded push, like tapping the table */
+  cocked: TableRule | 'nudge'
+  outOfBounds: TableRule
+  timedOut: TableRule
+}
+
+export const TABLE_RULES: TableRule[] = ['reroll-die', 'reroll-all', 'nearest']
+export const COCKED_RULES: TableRules['cocked'][] = ['nudge', ...TABLE_RULES]
+
+export interface SimulationResult {
+  rollResult: number[]
+  /** Decimated, the last keyframe of each die is the frame it came to rest on */
+  track: SimulationTrack
+  /** The seed that produced `rollResult`, derived from `requestedSeed` if the simulation was retried */
+  seed: string
+  requestedSeed: string
+  retries: number
+  /** Status of the last attempt; anything but `settled` means all retries were used up */
+  status: SimulationStatus
+  /** Why each retried attempt was given up */
+  failedAttempts: SimulationStatus[]
+  /** How often a die came to rest without lying flat on a face (e.g. on an edge), over all attempts */
+  edgeLandings: number
+  /** How each die ended up in the last frame */
+  faceReadings: FaceReading[]
+  outcomes: DieOutcome[]
+  /** How often each die was thrown again under the `reroll-die` rule */
+  dieRerolls: number[]
+}
+
+export interface MagicThrowResult extends SimulationResult {
+  /** False if no throw landing on the desired faces was found within the budget */
+  found: boolean
+  /** Number of simulations run */
+  attempts: number
+}
+
+export interface RollVerification {
+  valid: boolean
+  expectedResult: number[]
+  actualResult: number[]
+  seed: string
+}
+
+export const DEFAULT_SIMULATION_CONFIG: Omit<SimulationConfig, 'dice' | 'seed'> = {
+  physics: DEFAULT_PHYSICS,
+  tray: DEFAULT_TRAY,
+  floorY: -7,
+  stepRate: 60,
+  maxSteps: 3000,
+  maxRetries: 10,
+  tableRules: {
+    cocked: 'nudge',
+    outOfBounds: 'reroll-die',
+    timedOut: 'reroll-all',
+  },
+  cockedTolerance: FACE_UP_TOLERANCE,
+}
+
+// Impulse of a nudge per unit of die mass, a small hop that tips a die leaning on another one or a wall
+const NUDGE_IMPULSE = 8
+// Re-rolls of a single die before taking its nearest face instead
+const MAX_DIE_REROLLS = 3
+// How far outside the walls or below the floor a die counts as off the table
+const OUT_OF_BOUNDS_MARGIN = 1
+const TRAY_WALL_THICKNESS = 1
+
+// Limits for hand throws, so a wild flick can't launch the dice through the walls
+const MAX_THROW_SPEED = 40
+const MAX_THROW_SPIN = 30
+const MAX_THROW_HEIGHT = 20
+const THROW_PRECISION = 100
+
+/** Height dice start at, also where the pointer holds them before a hand throw */
+export const START_HEIGHT = 3
+
+/** Most dice in one throw, a pool of a hundred or more needs a larger tray to land in */
+export const MAX_DICE = 200
+
+// Held dice up to this many are in a single ring
+const HELD_RING_SIZE = 12
+// More are held in layers of a die in the middle with two rings around it
+const HELD_LAYER: Vec3Tuple[] = [
+  [0, 0, 0],
+  ...Array.from({ length: 6 }, (_, i): Vec3Tuple => [1.3 * Math.cos(Math.PI * i / 3), 0, 1.3 * Math.sin(Math.PI * i / 3)]),
+  ...Array.from({ length: 12 }, (_, i): Vec3Tuple => [2.6 * Math.cos(Math.PI * i / 6), 0, 2.6 * Math.sin(Math.PI * i / 6)]),
+]
+const HELD_LAYER_HEIGHT = 1.3
+
+export type SimulationInput = Pick<SimulationConfig, 'dice' | 'seed'> & Partial<SimulationConfig>
+
+/**
+ * Simulates a throw. When an attempt gets stuck or a `reroll-all` rule applies, it is retried
+ * with a seed derived from the requested one, so the same requested seed always ends in the
+ * same roll. The last retry takes the nearest face instead of re-rolling everything.
+ */
+export function simulateThrow(config: SimulationInput): SimulationResult {
+  const resolved: SimulationConfig = { ...DEFAULT_SIMULATION_CONFIG, ...config }
+  const failedAttempts: SimulationStatus[] = []
+  let edgeLandings = 0
+
+  for (let retries = 0; ; retries++) {
+    const seed = deriveRetrySeed(resolved.seed, retries)
+    const tableRules = retries < resolved.maxRetries ? resolved.tableRules : withoutRerollAll(resolved.tableRules)
+    const attempt = simulateAttempt({ ...resolved, seed, tableRules }, retries)
+    edgeLandings += attempt.edgeLandings
+    if (attempt.status === 'settled' || retries >= resolved.maxRetries)
+      return { ...attempt, seed, requestedSeed: resolved.seed, retries, failedAttempts, edgeLandings }
+
+    failedAttempts.push(attempt.status)
+    console.warn(`Simulation ${attempt.status} with seed ${seed}, retrying with derived seed (attempt ${retries + 1})`)
+  }
+}
+
+export function createThrowDescriptor(origin: Vec3Tuple, velocity: Vec3Tuple, angularVelocity: Vec3Tuple): ThrowDescriptor {
+  const round = (vector: Vec3Tuple) => vector.map(value => Math.round(value * THROW_PRECISION) / THROW_PRECISION) as Vec3Tuple
+  const limit = (vector: Vec3Tuple, max: number) => {
+    const length = Math.hypot(...vector)
+    return round(length > max ? vector.map(value => value * max / length) as Vec3Tuple : vector)
+  }
+  return {
+    origin: round(origin),
+    velocity: limit(velocity, MAX_THROW_SPEED),
+    angularVelocity: limit(angularVelocity, MAX_THROW_SPIN),
+  }
+}
+
+/** Compact text form of a throw, e.g. for the `throw` URL parameter */
+export function serializeThrow({ origin, velocity, angularVelocity }: ThrowDescriptor) {
+  return [origin, velocity, angularVelocity].map(vector => vector.join(',')).join(';')
+}
+
+export function parseThrow(text: string): ThrowDescriptor | undefined {
+  const vectors = text.split(';').map(vector => vector.split(',').map(Number))
+  if (vectors.length !== 3 || !vectors.every(vector => vector.length === 3 && vector.every(Number.isFinite)))
+    return undefined
+  const [origin, velocity, angularVelocity] = vectors as Vec3Tuple[]
+  return createThrowDescriptor(origin, velocity, angularVelocity)
+}
+
+/**
+ * Where each of `count` held dice sits relative to the center of the hand: a ring wide enough
+ * that the dice don't overlap when they are let go, or for a pool, stacked layers.
+ */
+export function getHeldDiceOffsets(count: number): Vec3Tuple[] {
+  if (count === 1)
+    return [[0, 0, 0]]
+  if (count > HELD_RING_SIZE) {
+    return Array.from({ length: count }, (_, i) => {
+      const [x, , z] = HELD_LAYER[i % HELD_LAYER.length]
+      return [x, Math.floor(i / HELD_LAYER.length) * HELD_LAYER_HEIGHT, z]
+    })
+  }
+  const radius = Math.max(0.8, count * 1.3 / (2 * Math.PI))
+  return Array.from({ length: count }, (_, i) => {
+    const angle = 2 * Math.PI * i / count
+    return [radius * Math.cos(angle), 0, radius * Math.sin(angle)]
+  })
+}
+
+function withoutRerollAll(rules: TableRules): TableRules {
+  const replace = <T>(rule: T) => rule === 'reroll-all' ? 'nearest' : rule
+  return { cocked: replace(rules.cocked), outOfBounds: replace(rules.outOfBounds), timedOut: replace(rules.timedOut) }
+}
+
+/** Seed used for the `retry`th retry of `seed`; the first attempt uses `seed` itself */
+export function deriveRetrySeed(seed: string, retry: number) {
+  return retry === 0 ? seed : `${seed}#${retry}`
+}
+
+/**
+ * Re-simulates a throw and checks it against the result a client claims, e.g. for a server
+ * auditing rolls. `config` has to match the one the client used, apart from the seed.
+ */
+export function verifyRoll(seed: string, config: Omit<SimulationInput, 'seed'>, expectedResult: number[]): RollVerification {
+  const { rollResult, seed: effectiveSeed } = simulateThrow({ ...config, seed })
+  return {
+    valid: rollResult.length === expectedResult.length && rollResult.every((value, i) => value === expectedResult[i]),
+    expectedResult,
+    actualResult: rollResult,
+    seed: effectiveSeed,
+  }
+}
+
+// Remapped re-simulations per seed before moving on to the next derived seed
+const MAX_REMAP_PASSES = 3
+
+/**
+ * Forced outcome: finds a throw whose recorded trajectory lands naturally on `desiredRolls`.
+ *
+ * After a normal simulation each die gets a symmetry rotation of its initial orientation that
+ * takes the desired face to where the actual face landed. In exact arithmetic the physics is
+ * unchanged, but contact resolution is sensitive to vertex order, so the result is simulated
+ * again and remapped until it matches. Dice that keep diverging move the search on to seeds
+ * derived from `config.seed`, so the same seed and desired rolls always give the same throw.
+ */
+export function simulateMagicThrow(config: SimulationInput, desiredRolls: number[], budget = 20): MagicThrowResult {
+  const definitions = config.dice.map(getDieDefinition)
+  const matches = (rollResult: number[]) => rollResult.filter((value, i) => value === desiredRolls[i]).length
+
+  let attempts = 0
+  let best: SimulationResult | undefined
+  for (let seedIndex = 0; attempts < budget; seedIndex++) {
+    const seed = seedIndex === 0 ? config.seed : `${config.seed}~magic${seedIndex}`
+    let orientationRemap: (QuaternionLike | undefined)[] = []
+
+    for (let pass = 0; pass < MAX_REMAP_PASSES && attempts < budget; pass++) {
+      // Only the chosen throw is worth watching, not every one tried
+      const result = simulateThrow({ ...config, seed, orientationRemap, onFrame: undefined })
+      attempts++
+      if (result.status === 'settled' && matches(result.rollResult) === definitions.length)
+        return { ...result, found: true, attempts }
+      if (!best || matches(result.rollResult) > matches(best.rollResult))
+        best = result
+      if (result.status !== 'settled')
+        break
+
+      orientationRemap = definitions.map((definition, i) => {
+        const actualFace = findFaceByValue(definition, result.rollResult[i])
+        const desiredFace = findFaceByValue(definition, desiredRolls[i])
+        const rotation = actualFace && desiredFace && getSymmetryRotation(definition, desiredFace, actualFace)
+        const previous = orientationRemap[i] ?? { x: 0, y: 0, z: 0, w: 1 }
+        if (!rotation)
+          return previous
+        return toCannonQuaternion(previous).mult(toCannonQuaternion(rotation))
+      })
+    }
+  }
+
+  console.warn(`No throw landing on ${desiredRolls.join(',')} found within ${budget} simulations of seed ${config.seed}`)
+  return { ...best!, found: false, attempts }
+}
+
+function toCannonQuaternion({ x, y, z, w }: QuaternionLike) {
+  return new CANNON.Quaternion(x, y, z, w)
+}
+
+function simulateAttempt(config: SimulationConfig, retry: number) {
+  const { seed, stepRate, tableRules, physics } = config
+  const rng = seedrandom(seed)
+  const { world, diceMaterial } = createWorld(config)
+  const definitions = config.dice.map(getDieDefinition)
+  const dice = definitions.map((definition) => {
+    const body = new CANNON.Body({
+      mass: physics.dieMass,
+      shape: createDieShape(definition),
+      sleepTimeLimit: physics.sleepTimeLimit,
+      sleepSpeedLimit: physics.sleepSpeedLimit,
+      linearDamping: physics.linearDamping,
+      angularDamping: physics.angularDamping,
+      material: diceMaterial,
+    })
+    world.addBody(body)
+    return body
+  })
+
+  let edgeLandings = 0
+  const track = createTrack(dice.length)
+  const rollResult = dice.map(() => 1)
+  // Undefined while a die is still rolling
+  const outcomes: (DieOutcome | undefined)[] = dice.map(() => undefined)
+  const dieRerolls = dice.map(() => 0)
+  // Step at which each die was last thrown, for its own step budget
+  const thrownAt = dice.map(() => 0)
+  // Why the whole attempt is given up under a `reroll-all` rule
+  let rerollAll: SimulationStatus | undefined
+  let status: SimulationStatus = 'settled'
+  let i = 0
+
+  // Generate random positions for dice that don't overlap
+  const dicePositions = config.throw
+    ? getThrowPositions(config.throw, dice.length, config)
+    : generateNonOverlappingPositions(dice.length, rng, config)
+
+  // Stuck detection variables
+  const stuckDetectionThreshold = 0.001 // Negligible movement threshold
+  const stuckDetectionSteps = 1000 // Number of steps to check for stuck state
+  let lastPositions: CANNON.Vec3[] = []
+
+  const recordFrame = () => {
+    appendFrame(track, dice)
+    config.onFrame?.(track, retry)
+  }
+
+  const orient = (body: CANNON.Body, dIdx: number) => {
+    body.quaternion.setFromEuler(2 * Math.PI * rng(), 2 * Math.PI * rng(), 2 * Math.PI * rng())
+    const remap = config.orientationRemap?.[dIdx]
+    if (remap)
+      body.quaternion = body.quaternion.mult(toCannonQuaternion(remap))
+  }
+
+  const throwRandomly = (body: CANNON.Body) => {
+    const force = physics.minImpulse + (physics.maxImpulse - physics.minImpulse) * rng()
+    const theta = 2 * Math.PI * rng()
+    body.applyImpulse(
+      new CANNON.Vec3(Math.sin(theta) * force, Math.cos(theta) * force, 0),
+      new CANNON.Vec3(0, 0, 0.2),
+    )
+  }
+
+  // A die with an outcome is frozen in place: asleep, and with `allowSleep` off nothing wakes it
+  const settle = (dIdx: number, outcome: DieOutcome) => {
+    outcomes[dIdx] = outcome
+    rollResult[dIdx] = readFace(dice[dIdx].quaternion, definitions[dIdx]).value
+    dice[dIdx].allowSleep = false
+    dice[dIdx].sleep()
+  }
+
+  // Picks the die up and throws it again from the start height, above the frozen dice on the table
+  const rerollDie = (dIdx: number) => {
+    const body = dice[dIdx]
+    dieRerolls[dIdx]++
+    thrownAt[dIdx] = i
+    body.position = generateNonOverlappingPositions(1, rng, config)[0]
+    body.velocity.setZero()
+    body.angularVelocity.setZero()
+    orient(body, dIdx)
+    throwRandomly(body)
+    body.wakeUp()
+    body.allowSleep = true
+  }
+
+  const applyRule = (dIdx: number, outcome: Exclude<DieOutcome, 'settled'>, rule: TableRules['cocked']) => {
+    if (rule === 'reroll-die' && dieRerolls[dIdx] < MAX_DIE_REROLLS) {
+      rerollDie(dIdx)
+    }
+    else if (rule === 'reroll-all') {
+      rerollAll ??= outcome
+    }
+    else if (rule === 'nudge') {
+      // Towards the middle of the table, away from any wall the die is leaning on
+      const body = dice[dIdx]
+      const theta = Math.atan2(-body.position.x, -body.position.z) + (rng() - 0.5) * Math.PI / 2
+      const impulse = NUDGE_IMPULSE * physics.dieMass
+      body.wakeUp()
+      body.applyImpulse(
+        new CANNON.Vec3(Math.sin(theta) * impulse, impulse, Math.cos(theta) * impulse),
+        new CANNON.Vec3(0, 0.3, 0),
+      )
+      body.allowSleep = true
+    }
+    else {
+      settle(dIdx, outcome)
+    }
+  }
+
+  dice.forEach((body, dIdx) => {
+    body.position = dicePositions[dIdx]
+    orient(body, dIdx)
+
+    if (config.throw) {
+      const { velocity, angularVelocity } = config.throw
+      body.velocity.set(...velocity)
+      // Vary the spin a little so the dice don't tumble in lockstep
+      body.angularVelocity.set(...angularVelocity.map(value => value * (0.8 + 0.4 * rng())) as Vec3Tuple)
+    }
+    else {
+      throwRandomly(body)
+    }
+
+    body.allowSleep = true
+
+    body.addEventListener('sleep', () => {
+      body.allowSleep = false
+      if (outcomes[dIdx])
+        return
+
+      if (readFace(body.quaternion, definitions[dIdx]).tilt <= config.cockedTolerance) {
+        settle(dIdx, 'settled')
+        return
+      }
+      edgeLandings++
+      applyRule(dIdx, 'cocked', tableRules.cocked)
+    })
+  })
+
+  const isOutOfBounds = ({ position }: CANNON.Body) =>
+    Math.abs(position.x) > config.tray.width / 2 + OUT_OF_BOUNDS_MARGIN
+    || Math.abs(position.z) > config.tray.depth / 2 + OUT_OF_BOUNDS_MARGIN
+    || position.y < config.floorY - OUT_OF_BOUNDS_MARGIN
+
+  while (outcomes.includes(undefined)) {
+    recordFrame()
+    world.step(1 / stepRate, 1 / stepRate)
+    i++
+
+    dice.forEach((body, dIdx) => {
+      if (outcomes[dIdx])
+        return
+      if (isOutOfBounds(body)) {
+        applyRule(dIdx, 'out-of-bounds', tableRules.outOfBounds)
+        // Left lying where it fell, out of everyone's way
+        if (outcomes[dIdx])
+          world.removeBody(body)
+      }
+      else if (i - thrownAt[dIdx] >= config.maxSteps) {
+        applyRule(dIdx, 'timed-out', tableRules.timedOut)
+      }
+    })
+
+    if (rerollAll) {
+      console.warn(`Die ${rerollAll} after ${i} steps with seed ${seed}, re-rolling all dice`)
+      status = rerollAll
+      break
+    }
+
+    // Check for stuck state every stuckDetectionSteps
+    if (i % stuckDetectionSteps === 0) {
+      const currentPositions = dice.map(d => d.position.clone())
+      const currentVelocities = dice.map(d => d.velocity.clone())
+
+      if (lastPositions.length > 0) {
+        let allStuck = true
+        for (let dIdx = 0; dIdx < dice.length; dIdx++) {
+          const positionDelta = currentPositions[dIdx].distanceTo(lastPositions[dIdx])
+          const velocityMagnitude = currentVelocities[dIdx].length()
+
+          // If any dice has significant movement or velocity, not stuck
+          if (positionDelta > stuckDetectionThreshold || velocityMagnitude > stuckDetectionThreshold) {
+            allStuck = false
+            break
+          }
+        }
+
+        if (allStuck) {
+          console.warn(`Simulation appears stuck after ${i} steps with seed ${seed}`)
+          status = 'stuck'
+          break
+        }
+      }
+
+      lastPositions = currentPositions
+    }
+  }
+  recordFrame()
+
+  // Dice still rolling when the attempt was given up count as timed out
+  outcomes.forEach((outcome, dIdx) => {
+    if (!outcome)
+      settle(dIdx, 'timed-out')
+  })
+  const faceReadings = dice.map((body, dIdx) => readFace(body.quaternion, definitions[dIdx]))
+  return { rollResult, track: decimateTrack(track), status, edgeLandings, faceReadings, outcomes: outcomes as DieOutcome[], dieRerolls }
+}
+
+function createWorld({ physics, tray, floorY }: SimulationConfig) {
+  const world = new CANNON.World({
+    allowSleep: true,
+    gravity: new CANNON.Vec3(0, physics.gravity, 0),
+  })
+  world.defaultContactMaterial.friction = physics.friction
+  world.defaultContactMaterial.restitution = physics.restitution
+
+  // Contacts between two dice use the default contact material
+  const diceMaterial = new CANNON.Material('dice')
+  const floorMaterial = new CANNON.Material('floor')
+  const wallMaterial = new CANNON.Material('wall')
+  world.addContactMaterial(new CANNON.ContactMaterial(diceMaterial, floorMaterial, tray.floor))
+  world.addContactMaterial(new CANNON.ContactMaterial(diceMaterial, wallMaterial, tray.walls))
+
+  // The floor extends past the tray, so dice that fly out land on the table around it
+  const floorBody = new CANNON.Body({
+    type: CANNON.Body.STATIC,
+    shape: new CANNON.Plane(),
+    material: floorMaterial,
+  })
+  floorBody.position.set(0, floorY, 0)
+  floorBody.quaternion.setFromAxisAngle(new CANNON.Vec3(-1, 0, 0), Math.PI * 0.5)
+  world.addBody(floorBody)
+
+  getTrayWalls(tray).forEach(({ center, halfExtents }) => {
+    const wallBody = new CANNON.Body({
+      type: CANNON.Body.STATIC,
+      shape: new CANNON.Box(new CANNON.Vec3(...halfExtents)),
+      material: wallMaterial,
+    })
+    wallBody.position.set(center[0], floorY + center[1], center[2])
+    world.addBody(wallBody)
+  })
+
+  return { world, diceMaterial }
+}
+
+/**
+ * The four walls of the tray as boxes standing on the floor just outside its edges, relative
+ * to the floor. Finite, so dice can fly over low walls.
+ */
+export function getTrayWalls({ width, depth, wallHeight }: TrayConfig) {
+  if (wallHeight <= 0)
+    return []
+  const t = TRAY_WALL_THICKNESS / 2
+  const h = wallHeight / 2
+  const walls: { center: Vec3Tuple, halfExtents: Vec3Tuple }[] = [
+    // Front and back, long enough to cover the corners
+    { center: [0, h, depth / 2 + t], halfExtents: [width / 2 + 2 * t, h, t] },
+    { center: [0, h, -depth / 2 - t], halfExtents: [width / 2 + 2 * t, h, t] },
+    // Left and right
+    { center: [-width / 2 - t, h, 0], halfExtents: [t, h, depth / 2] },
+    { center: [width / 2 + t, h, 0], halfExtents: [t, h, depth / 2] },
+  ]
+  return walls
+}
+
+/** Held dice positions for a hand throw, with the hand kept inside the box */
+function getThrowPositions({ origin }: ThrowDescriptor, numDice: number, { tray, floorY }: SimulationConfig) {
+  const offsets = getHeldDiceOffsets(numDice)
+  const reach = Math.max(...offsets.map(([x, , z]) => Math.hypot(x, z))) + 0.9
+  const clampAxis = (value: number, half: number) => Math.max(-half + reach, Math.min(half - reach, value))
+  const x = clampAxis(origin[0], tray.width / 2)
+  const y = Math.min(floorY + MAX_THROW_HEIGHT, Math.max(floorY + 1, origin[1]))
+  const z = clampAxis(origin[2], tray.depth / 2)
+  return offsets.map(([dx, dy, dz]) => new CANNON.Vec3(x + dx, y + dy, z + dz))
+}
+
+function generateNonOverlappingPositions(numDice: number, rng: () => number, { tray }: SimulationConfig): CANNON.Vec3[] {
+  const positions: CANNON.Vec3[] = []
+  const minDistance = 1.2 // Reduced minimum distance to fit more dice
+  const maxAttempts = 100 // Maximum attempts to find a valid position
+
+  // Calculate usable area within the invisible walls with more conservative margins
+  // Leave at least 1 unit margin from walls, and account for dice size (0.5 radius)
+  const margin = 1.5 // Conservative margin including dice radius
+  const usableWidth = tray.width - 2 * margin
+  const usableHeight = tray.depth - 2 * margin
+  const halfUsableWidth = usableWidth / 2
+  const halfUsableHeight = usableHeight / 2
+
+  for (let i = 0; i < numDice; i++) {
+    let validPosition = false
+    let attempts = 0
+    let newPosition: CANNON.Vec3
+
+    do {
+      // Generate random X and Z positions within the constrained area
+      const x = (rng() - 0.5) * 2 * halfUsableWidth
+      const z = (rng() - 0.5) * 2 * halfUsableHeight
+      const y = START_HEIGHT + rng() * 0.5 // Small random height variation
+
+      newPosition = new CANNON.Vec3(x, y, z)
+
+      // Check if this position is far enough from all existing positions
+      validPosition = positions.every((existingPos) => {
+        const distance = newPosition.distanceTo(existingPos)
+        return distance >= minDistance
+      })
+
+      attempts++
+    } while (!validPosition && attempts < maxAttempts)
+
+    // If we couldn't find a valid position after max attempts, fall back to a grid position
+    if (!validPosition) {
+      const cols = Math.ceil(Math.sqrt(numDice))
+      const rows = Math.ceil(numDice / cols)
+      const col = i % cols
+      const row = Math.floor(i / cols)
+
+      // Create grid spacing that fits within usable area
+      const gridSpacingX = usableWidth / Math.max(cols - 1, 1)
+      const gridSpacingZ = usableHeight / Math.max(rows - 1, 1)
+
+      const fallbackX = (col - (cols - 1) / 2) * Math.min(gridSpacingX, minDistance)
+      const fallbackZ = (row - (rows - 1) / 2) * Math.min(gridSpacingZ, minDistance)
+
+      newPosition = new CANNON.Vec3(fallbackX, START_HEIGHT, fallbackZ)
+
+      // Too many dice for a single layer, stack them above the randomly placed ones instead
+      if (gridSpacingX < minDistance || gridSpacingZ < minDistance) {
+        const layerCols = Math.floor(usableWidth / minDistance) + 1
+        const layerRows = Math.floor(usableHeight / minDistance) + 1
+        const layerSize = layerCols * layerRows
+        const cell = i % layerSize
+        newPosition = new CANNON.Vec3(
+          (cell % layerCols - (layerCols - 1) / 2) * minDistance,
+          START_HEIGHT + 0.5 + (Math.floor(i / layerSize) + 1) * minDistance,
+          (Math.floor(cell / layerCols) - (layerRows - 1) / 2) * minDistance,
+        )
+      }
+    }
+
+    positions.push(newPosition)
+  }
+
+  return positions
+}
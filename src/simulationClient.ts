@@ -0,0 +1,113 @@
+import { CUSTOM_DICE, isStandardDieType } from './dice'
+import type { MagicThrowResult, SimulationInput, SimulationResult } from './simulation'
+import type { SimulationRequest, SimulationWorkerMessage } from './simulationProtocol'
+import type { SimulationTrack } from './simulationTrack'
+import { appendTrack, createTrack, decimateTrack } from './simulationTrack'
+
+/**
+ * Page side of the simulation worker. One throw is simulated at a time: starting another one,
+ * or `cancel`, stops the previous throw by terminating the worker, which is only started again
+ * for the next throw.
+ */
+
+export interface SimulationClient {
+  /**
+   * Simulates a throw in the worker. `onFrames` gets the track of the current attempt whenever
+   * more frames were appended to it, a new track when an attempt was given up and the throw
+   * started over.
+   * Resolves with the result once simulated, or with undefined if it was cancelled. Rejects
+   * with a `SimulationError` if the throw could not be simulated.
+   */
+  simulate: (
+    input: Omit<SimulationInput, 'onFrame'>,
+    desiredRolls: number[] | undefined,
+    onFrames: (track: SimulationTrack) => void,
+  ) => Promise<SimulationResult | MagicThrowResult | undefined>
+  cancel: () => void
+  dispose: () => void
+}
+
+interface PendingSimulation {
+  id: number
+  retry: number
+  track: SimulationTrack
+  onFrames: (track: SimulationTrack) => void
+  resolve: (result: SimulationResult | MagicThrowResult | undefined) => void
+  reject: (error: SimulationError) => void
+}
+
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SimulationError'
+  }
+}
+
+export function createSimulationClient(): SimulationClient {
+  let worker: Worker | undefined
+  let pending: PendingSimulation | undefined
+  let nextId = 0
+
+  const onMessage = ({ data: message }: MessageEvent<SimulationWorkerMessage>) => {
+    if (message.id !== pending?.id)
+      return
+    if (message.type === 'frames') {
+      if (message.retry !== pending.retry) {
+        pending.retry = message.retry
+        pending.track = createTrack(pending.track.diceCount)
+      }
+      appendTrack(pending.track, message.track)
+      pending.onFrames(pending.track)
+    }
+    else if (message.type === 'done') {
+      pending.resolve({ ...message.result, track: decimateTrack(pending.track) })
+      pending = undefined
+    }
+    else {
+      pending.reject(new SimulationError(message.message))
+      pending = undefined
+    }
+  }
+
+  // The worker failed outside of a throw, e.g. to load, or sent something that can't be read
+  const onError = (event: Event) => {
+    worker?.terminate()
+    worker = undefined
+    pending?.reject(new SimulationError(event instanceof ErrorEvent && event.message ? event.message : 'The simulation worker failed'))
+    pending = undefined
+  }
+
+  const cancel = () => {
+    if (!pending)
+      return
+    // Busy until the throw is done, it won't get to a message asking it to stop
+    worker?.terminate()
+    worker = undefined
+    pending.resolve(undefined)
+    pending = undefined
+  }
+
+  return {
+    simulate: (input, desiredRolls, onFrames) => {
+      cancel()
+      if (!worker) {
+        worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' })
+        worker.addEventListener('message', onMessage)
+        worker.addEventListener('error', onError)
+        worker.addEventListener('messageerror', onError)
+      }
+      const customDice = Object.fromEntries(input.dice.filter(type => !isStandardDieType(type)).map(type => [type, CUSTOM_DICE[type]]))
+      const request: SimulationRequest = { id: nextId++, input, customDice, desiredRolls }
+      worker.postMessage(request)
+      return new Promise((resolve, reject) => {
+        pending = { id: request.id, retry: 0, track: createTrack(input.dice.length), onFrames, resolve, reject }
+      })
+    },
+    cancel,
+    dispose: () => {
+      cancel()
+      worker?.terminate()
+      worker = undefined
+    },
+  }
+}
@@ -0,0 +1,26 @@
+import type { CustomDie } from './dice'
+import type { MagicThrowResult, SimulationInput, SimulationResult } from './simulation'
+import type { SimulationTrack } from './simulationTrack'
+
+/**
+ * Messages between the page and the simulation worker. Frames are streamed back in batches
+ * while the physics runs, as tracks whose buffers are transferred, not copied.
+ */
+
+export interface SimulationRequest {
+  /** Echoed back, so answers to a cancelled request can be told apart */
+  id: number
+  input: Omit<SimulationInput, 'onFrame'>
+  /** The custom dice among `input.dice`, the worker doesn't know those defined on the page */
+  customDice: Record<string, CustomDie>
+  /** Set for magic rolls, whose frames only come once the search is over */
+  desiredRolls?: number[]
+}
+
+export type SimulationWorkerMessage =
+  /** Frames recorded since the last batch; a higher `retry` starts the frames over */
+  | { type: 'frames', id: number, retry: number, track: SimulationTrack }
+  /** Sent after the last frames, everything but the track itself */
+  | { type: 'done', id: number, result: Omit<SimulationResult | MagicThrowResult, 'track'> }
+  /** Sent instead of `done` if the throw could not be simulated */
+  | { type: 'error', id: number, message: string }
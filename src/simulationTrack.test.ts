@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { Pose } from './simulationTrack'
+import { appendFrame, appendTrack, createTrack, decimateTrack, getPose, getRestFrame, interpolatePose, sliceTrack } from './simulationTrack'
+
+const identity = { x: 0, y: 0, z: 0, w: 1 }
+// A quarter turn around y
+const quarterTurn = { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 }
+
+/** A die falling for `moving` frames and then lying still, next to one that never stops */
+function createTestTrack(frames: number, moving: number) {
+  const track = createTrack(2, 4)
+  for (let frame = 0; frame < frames; frame++) {
+    appendFrame(track, [
+      { position: { x: 0, y: 10 - Math.min(frame, moving), z: 0 }, quaternion: identity },
+      { position: { x: frame, y: 0, z: 0 }, quaternion: identity },
+    ])
+  }
+  return track
+}
+
+function readPose(read: (position: Pose['position'], quaternion: Pose['quaternion']) => void): Pose {
+  const pose = { position: { x: 0, y: 0, z: 0 }, quaternion: { x: 0, y: 0, z: 0, w: 1 } }
+  read(pose.position, pose.quaternion)
+  return pose
+}
+
+describe('decimateTrack', () => {
+  it('drops the frames after a die came to rest', () => {
+    const track = createTestTrack(20, 5)
+    const decimated = decimateTrack(track)
+    expect(decimated.frameCount).toBe(20)
+    expect(Array.from(decimated.lengths)).toEqual([6, 20])
+    expect(Array.from(decimated.offsets)).toEqual([0, 6])
+    expect(decimated.data).toHaveLength((6 + 20) * 7)
+    expect(getRestFrame(decimated, 0)).toBe(5)
+  })
+
+  it('keeps every pose', () => {
+    const track = createTestTrack(20, 5)
+    const decimated = decimateTrack(track)
+    for (let frame = 0; frame < 20; frame++) {
+      for (let die = 0; die < 2; die++) {
+        expect(readPose((p, q) => getPose(decimated, frame, die, p, q)))
+          .toEqual(readPose((p, q) => getPose(track, frame, die, p, q)))
+      }
+    }
+  })
+
+  it('keeps a die that never moved at its first frame', () => {
+    const decimated = decimateTrack(createTestTrack(10, 0))
+    expect(decimated.lengths[0]).toBe(1)
+  })
+})
+
+describe('appendTrack and sliceTrack', () => {
+  it('stream a track in batches', () => {
+    const track = decimateTrack(createTestTrack(20, 5))
+    const streamed = createTrack(2)
+    for (let start = 0; start < 20; start += 8)
+      appendTrack(streamed, sliceTrack(track, start, Math.min(start + 8, 20)))
+    expect(decimateTrack(streamed)).toEqual(track)
+  })
+})
+
+describe('interpolatePose', () => {
+  it('blends positions linearly between frames', () => {
+    const track = createTestTrack(20, 5)
+    expect(readPose((p, q) => interpolatePose(track, 2.25, 1, p, q)).position).toEqual({ x: 2.25, y: 0, z: 0 })
+    expect(readPose((p, q) => interpolatePose(track, 7, 1, p, q)).position).toEqual({ x: 7, y: 0, z: 0 })
+  })
+
+  it('stays at the rest pose after the last keyframe', () => {
+    const track = decimateTrack(createTestTrack(20, 5))
+    expect(readPose((p, q) => interpolatePose(track, 12.5, 0, p, q)).position).toEqual({ x: 0, y: 5, z: 0 })
+  })
+
+  it('turns along the shorter arc', () => {
+    const track = createTrack(1)
+    appendFrame(track, [{ position: { x: 0, y: 0, z: 0 }, quaternion: identity }])
+    // The same rotation as a quarter turn, negated
+    appendFrame(track, [{ position: { x: 0, y: 0, z: 0 }, quaternion: { x: -quarterTurn.x, y: -quarterTurn.y, z: -quarterTurn.z, w: -quarterTurn.w } }])
+    const { quaternion } = readPose((p, q) => interpolatePose(track, 0.5, 0, p, q))
+    // An eighth turn, not three eighths the other way
+    expect(quaternion.y).toBeCloseTo(Math.sin(Math.PI / 8))
+    expect(quaternion.w).toBeCloseTo(Math.cos(Math.PI / 8))
+    expect(Math.hypot(quaternion.x, quaternion.y, quaternion.z, quaternion.w)).toBeCloseTo(1)
+  })
+})
@@ -0,0 +1,210 @@
+import type { QuaternionLike } from './dice'
+
+/**
+ * Recorded motion of the dice, in one typed array instead of a vector and a quaternion per die
+ * per frame. Its buffers can be transferred to another thread as they are, and a track only
+ * holds numbers, so it survives `structuredClone` and `postMessage` unchanged.
+ *
+ * Each die has its own run of keyframes; once a die came to rest it stays where its last
+ * keyframe left it, so `decimateTrack` drops the frames after that. While recording, the runs
+ * are spaced apart so frames can be appended until the track has to grow.
+ */
+
+export interface SimulationTrack {
+  diceCount: number
+  /** Frames of the throw; a die that came to rest earlier has fewer keyframes */
+  frameCount: number
+  /** Keyframe of `data` the run of each die starts at */
+  offsets: Uint32Array
+  /** Keyframes of each die, its last one is where it came to rest */
+  lengths: Uint32Array
+  /** Position x, y, z and quaternion x, y, z, w per keyframe */
+  data: Float32Array
+}
+
+export interface Vec3Like {
+  x: number
+  y: number
+  z: number
+}
+
+export interface Pose {
+  position: Vec3Like
+  quaternion: QuaternionLike
+}
+
+const VALUES_PER_KEYFRAME = 7
+// Frames per die a new track has room for, it doubles whenever that runs out
+const INITIAL_CAPACITY = 256
+
+export function createTrack(diceCount: number, capacity = INITIAL_CAPACITY): SimulationTrack {
+  return {
+    diceCount,
+    frameCount: 0,
+    offsets: Uint32Array.from({ length: diceCount }, (_, die) => die * capacity),
+    lengths: new Uint32Array(diceCount),
+    data: new Float32Array(diceCount * capacity * VALUES_PER_KEYFRAME),
+  }
+}
+
+/** Records a frame, e.g. straight from the dice bodies, onto a track made by `createTrack` */
+export function appendFrame(track: SimulationTrack, poses: ArrayLike<Pose>) {
+  const frame = addFrame(track)
+  const { data } = track
+  for (let die = 0; die < track.diceCount; die++) {
+    const { position, quaternion } = poses[die]
+    const i = (track.offsets[die] + frame) * VALUES_PER_KEYFRAME
+    data[i] = position.x
+    data[i + 1] = position.y
+    data[i + 2] = position.z
+    data[i + 3] = quaternion.x
+    data[i + 4] = quaternion.y
+    data[i + 5] = quaternion.z
+    data[i + 6] = quaternion.w
+  }
+}
+
+/** Appends all frames of `other`, e.g. a batch streamed from the simulation worker */
+export function appendTrack(track: SimulationTrack, other: SimulationTrack) {
+  for (let frame = 0; frame < other.frameCount; frame++)
+    copyFrame(other, frame, track)
+}
+
+/** A new track with frames `start` up to `end`, every die keyframed in each of them */
+export function sliceTrack(track: SimulationTrack, start: number, end = track.frameCount) {
+  const slice = createTrack(track.diceCount, Math.max(end - start, 1))
+  for (let frame = start; frame < end; frame++)
+    copyFrame(track, frame, slice)
+  return slice
+}
+
+/**
+ * A packed copy of the track without the frames after each die came to rest, i.e. the ones
+ * that repeat its last pose. The last keyframe of a die is then the frame it settled on.
+ */
+export function decimateTrack(track: SimulationTrack): SimulationTrack {
+  const { diceCount, frameCount } = track
+  const lengths = Uint32Array.from(track.lengths, (length, die) => {
+    const rest = (track.offsets[die] + length - 1) * VALUES_PER_KEYFRAME
+    let last = length - 1
+    while (last > 0 && isSameKeyframe(track.data, rest, rest - (length - last) * VALUES_PER_KEYFRAME))
+      last--
+    return last + 1
+  })
+  const offsets = new Uint32Array(diceCount)
+  for (let die = 1; die < diceCount; die++)
+    offsets[die] = offsets[die - 1] + lengths[die - 1]
+
+  const data = new Float32Array((offsets[diceCount - 1] + lengths[diceCount - 1] || 0) * VALUES_PER_KEYFRAME)
+  for (let die = 0; die < diceCount; die++) {
+    const start = track.offsets[die] * VALUES_PER_KEYFRAME
+    data.set(track.data.subarray(start, start + lengths[die] * VALUES_PER_KEYFRAME), offsets[die] * VALUES_PER_KEYFRAME)
+  }
+  return { diceCount, frameCount, offsets, lengths, data }
+}
+
+/** Buffers to list as transferable when posting the track to another thread */
+export function getTrackBuffers({ offsets, lengths, data }: SimulationTrack): ArrayBuffer[] {
+  return [offsets.buffer, lengths.buffer, data.buffer] as ArrayBuffer[]
+}
+
+/** Frame the die came to rest on, or the last one of the track if it never did */
+export function getRestFrame(track: SimulationTrack, die: number) {
+  return track.lengths[die] - 1
+}
+
+/** Sets `position` and `quaternion`, e.g. of a mesh, to the pose of the die in `frame` */
+export function getPose(track: SimulationTrack, frame: number, die: number, position: Vec3Like, quaternion: QuaternionLike) {
+  const { data } = track
+  const i = getKeyframeIndex(track, frame, die)
+  position.x = data[i]
+  position.y = data[i + 1]
+  position.z = data[i + 2]
+  quaternion.x = data[i + 3]
+  quaternion.y = data[i + 4]
+  quaternion.z = data[i + 5]
+  quaternion.w = data[i + 6]
+}
+
+/**
+ * Like `getPose` for a fractional frame, blending the frames before and after it: the position
+ * linearly, the quaternion along the shorter arc.
+ */
+export function interpolatePose(track: SimulationTrack, time: number, die: number, position: Vec3Like, quaternion: QuaternionLike) {
+  const frame = Math.floor(time)
+  const t = time - frame
+  const { data } = track
+  const a = getKeyframeIndex(track, frame, die)
+  const b = getKeyframeIndex(track, frame + 1, die)
+  if (a === b || t === 0) {
+    getPose(track, frame, die, position, quaternion)
+    return
+  }
+  position.x = data[a] + (data[b] - data[a]) * t
+  position.y = data[a + 1] + (data[b + 1] - data[a + 1]) * t
+  position.z = data[a + 2] + (data[b + 2] - data[a + 2]) * t
+
+  let cos = data[a + 3] * data[b + 3] + data[a + 4] * data[b + 4] + data[a + 5] * data[b + 5] + data[a + 6] * data[b + 6]
+  const sign = cos < 0 ? -1 : 1
+  cos *= sign
+  let from = 1 - t
+  let to = t * sign
+  // Nearly the same rotation, lerping is as good and avoids dividing by almost zero
+  if (cos < 0.9999) {
+    const angle = Math.acos(cos)
+    const sin = Math.sin(angle)
+    from = Math.sin(from * angle) / sin
+    to = Math.sin(t * angle) / sin * sign
+  }
+  const x = data[a + 3] * from + data[b + 3] * to
+  const y = data[a + 4] * from + data[b + 4] * to
+  const z = data[a + 5] * from + data[b + 5] * to
+  const w = data[a + 6] * from + data[b + 6] * to
+  const length = Math.hypot(x, y, z, w)
+  quaternion.x = x / length
+  quaternion.y = y / length
+  quaternion.z = z / length
+  quaternion.w = w / length
+}
+
+/** Index into `data` of the die in `frame`, its last keyframe if it was at rest by then */
+function getKeyframeIndex(track: SimulationTrack, frame: number, die: number) {
+  const keyframe = Math.max(0, Math.min(frame, track.lengths[die] - 1))
+  return (track.offsets[die] + keyframe) * VALUES_PER_KEYFRAME
+}
+
+function isSameKeyframe(data: Float32Array, a: number, b: number) {
+  for (let i = 0; i < VALUES_PER_KEYFRAME; i++) {
+    if (data[a + i] !== data[b + i])
+      return false
+  }
+  return true
+}
+
+/** Makes room for one more frame of every die, growing the track if needed */
+function addFrame(track: SimulationTrack) {
+  const capacity = track.data.length / VALUES_PER_KEYFRAME / track.diceCount
+  if (track.frameCount >= capacity) {
+    const grown = Math.max(capacity * 2, 1)
+    const data = new Float32Array(track.diceCount * grown * VALUES_PER_KEYFRAME)
+    for (let die = 0; die < track.diceCount; die++) {
+      const start = track.offsets[die] * VALUES_PER_KEYFRAME
+      data.set(track.data.subarray(start, start + track.lengths[die] * VALUES_PER_KEYFRAME), die * grown * VALUES_PER_KEYFRAME)
+      track.offsets[die] = die * grown
+    }
+    track.data = data
+  }
+  const frame = track.frameCount++
+  track.lengths.fill(track.frameCount)
+  return frame
+}
+
+function copyFrame(from: SimulationTrack, frame: number, to: SimulationTrack) {
+  const target = addFrame(to)
+  for (let die = 0; die < from.diceCount; die++) {
+    const source = getKeyframeIndex(from, frame, die)
+    const i = (to.offsets[die] + target) * VALUES_PER_KEYFRAME
+    for (let v = 0; v < VALUES_PER_KEYFRAME; v++)
+      to.data[i + v] = from.data[source + v]
+  }
+}
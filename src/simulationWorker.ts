@@ -0,0 +1,62 @@
+import { defineCustomDie, isDieType } from './dice'
+import { simulateMagicThrow, simulateThrow } from './simulation'
+import type { SimulationRequest, SimulationWorkerMessage } from './simulationProtocol'
+import type { SimulationTrack } from './simulationTrack'
+import { getTrackBuffers, sliceTrack } from './simulationTrack'
+
+/**
+ * Runs throws off the main thread, see `createSimulationClient`. A throw blocks the worker
+ * until it is done, so a cancelled one is stopped by terminating the worker.
+ */
+
+// Frames per batch; the first batch is what the renderer waits for
+const FRAME_BATCH = 10
+
+function post(message: SimulationWorkerMessage) {
+  globalThis.postMessage(message, { transfer: message.type === 'frames' ? getTrackBuffers(message.track) : [] })
+}
+
+globalThis.addEventListener('message', ({ data: { id, input, customDice, desiredRolls } }: MessageEvent<SimulationRequest>) => {
+  // The page waits for an answer to every request, even if the physics throws
+  try {
+    Object.entries(customDice).forEach(([name, die]) => isDieType(name) || defineCustomDie(name, die))
+    simulate(id, input, desiredRolls)
+  }
+  catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+function simulate(id: number, input: SimulationRequest['input'], desiredRolls: number[] | undefined) {
+  if (desiredRolls) {
+    const { track, ...result } = simulateMagicThrow(input, desiredRolls)
+    post({ type: 'frames', id, retry: 0, track })
+    post({ type: 'done', id, result })
+    return
+  }
+
+  // Track of the current attempt and how many of its frames were posted
+  let recording: SimulationTrack | undefined
+  let posted = 0
+  let batchRetry = 0
+  const flush = () => {
+    if (recording && recording.frameCount > posted)
+      post({ type: 'frames', id, retry: batchRetry, track: sliceTrack(recording, posted) })
+    posted = recording?.frameCount ?? 0
+  }
+  const { track: _, ...result } = simulateThrow({
+    ...input,
+    onFrame: (track, retry) => {
+      if (retry !== batchRetry) {
+        // The rest of the given up attempt is of no use
+        posted = 0
+        batchRetry = retry
+      }
+      recording = track
+      if (track.frameCount - posted >= FRAME_BATCH)
+        flush()
+    },
+  })
+  flush()
+  post({ type: 'done', id, result })
+}
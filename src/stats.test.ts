@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { chiSquarePValue, chiSquareTest, computeFaceStatistics } from './stats'
+
+describe('chiSquarePValue', () => {
+  it('matches tabulated critical values', () => {
+    // Statistic, degrees of freedom and the p-value it has in a chi-square table
+    const table: [number, number, number][] = [
+      [3.841, 1, 0.05],
+      [10.828, 1, 0.001],
+      [11.070, 5, 0.05],
+      [15.086, 5, 0.01],
+      [30.144, 19, 0.05],
+      [4.865, 10, 0.9],
+    ]
+    table.forEach(([statistic, degreesOfFreedom, pValue]) =>
+      expect(chiSquarePValue(statistic, degreesOfFreedom)).toBeCloseTo(pValue, 4))
+  })
+
+  it('is exp(-x / 2) for two degrees of freedom', () => {
+    for (const statistic of [0.5, 2, 3, 8])
+      expect(chiSquarePValue(statistic, 2)).toBeCloseTo(Math.exp(-statistic / 2), 10)
+  })
+
+  it('is 1 without any deviation and falls towards 0', () => {
+    expect(chiSquarePValue(0, 5)).toBe(1)
+    expect(chiSquarePValue(200, 5)).toBeLessThan(1e-30)
+  })
+})
+
+describe('chiSquareTest', () => {
+  it('tests against a uniform distribution', () => {
+    expect(chiSquareTest([10, 10, 10, 10, 10, 10])).toEqual({ statistic: 0, degreesOfFreedom: 5, pValue: 1 })
+    const { statistic, pValue } = chiSquareTest([20, 10, 10, 10, 10, 0])
+    expect(statistic).toBeCloseTo(20)
+    expect(pValue).toBeCloseTo(0.00125, 5)
+  })
+
+  it('leaves an empty histogram alone', () => {
+    expect(chiSquareTest([0, 0, 0, 0]).pValue).toBe(1)
+  })
+})
+
+describe('computeFaceStatistics', () => {
+  it('counts the faces and the longest streak', () => {
+    const statistics = computeFaceStatistics([1, 6, 6, 6, 2, 2], 6)
+    expect(statistics.histogram).toEqual([1, 2, 0, 0, 0, 3])
+    expect(statistics.mean).toBeCloseTo(23 / 6)
+    expect(statistics.expectedMean).toBe(3.5)
+    expect(statistics.longestStreak).toEqual({ face: 6, length: 3 })
+    expect(statistics.fairness).toBe('insufficient-data')
+  })
+
+  it('tells fair dice from biased ones', () => {
+    const fair = Array.from({ length: 60 }, (_, i) => i % 6 + 1)
+    expect(computeFaceStatistics(fair, 6).fairness).toBe('fair')
+    const loaded = Array.from({ length: 60 }, (_, i) => i % 3 === 0 ? 6 : i % 6 + 1)
+    expect(computeFaceStatistics(loaded, 6).fairness).toBe('biased')
+  })
+})
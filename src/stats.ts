@@ -0,0 +1,145 @@
+/**
+ * Statistics over observed die faces, shared by the roll history panel and the fairness
+ * analysis script.
+ */
+
+export interface ChiSquareResult {
+  statistic: number
+  degreesOfFreedom: number
+  /** Probability of a deviation at least this large if the die is fair */
+  pValue: number
+}
+
+export type Fairness = 'fair' | 'suspicious' | 'biased' | 'insufficient-data'
+
+export interface FaceStatistics {
+  sides: number
+  count: number
+  /** `histogram[face - 1]` is how often `face` came up */
+  histogram: number[]
+  mean: number
+  expectedMean: number
+  /** Longest run of the same face in a row */
+  longestStreak: { face: number, length: number }
+  chiSquare: ChiSquareResult
+  fairness: Fairness
+}
+
+/** Pearson's chi-square goodness of fit test against a uniform distribution */
+export function chiSquareTest(histogram: number[]): ChiSquareResult {
+  const total = histogram.reduce((sum, count) => sum + count, 0)
+  const expected = total / histogram.length
+  const statistic = expected === 0
+    ? 0
+    : histogram.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0)
+  const degreesOfFreedom = histogram.length - 1
+  return { statistic, degreesOfFreedom, pValue: chiSquarePValue(statistic, degreesOfFreedom) }
+}
+
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number) {
+  if (statistic <= 0)
+    return 1
+  return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2)
+}
+
+/**
+ * Face statistics for a sequence of results of one die type. The chi-square test is only
+ * trusted once every face is expected at least 5 times.
+ */
+export function computeFaceStatistics(faces: number[], sides: number): FaceStatistics {
+  const histogram = Array.from({ length: sides }, () => 0)
+  faces.forEach(face => histogram[face - 1]++)
+
+  const longestStreak = { face: 0, length: 0 }
+  let streak = 0
+  faces.forEach((face, i) => {
+    streak = face === faces[i - 1] ? streak + 1 : 1
+    if (streak > longestStreak.length)
+      Object.assign(longestStreak, { face, length: streak })
+  })
+
+  const chiSquare = chiSquareTest(histogram)
+  let fairness: Fairness = 'fair'
+  if (faces.length < 5 * sides)
+    fairness = 'insufficient-data'
+  else if (chiSquare.pValue < 0.01)
+    fairness = 'biased'
+  else if (chiSquare.pValue < 0.05)
+    fairness = 'suspicious'
+
+  return {
+    sides,
+    count: faces.length,
+    histogram,
+    mean: faces.length ? faces.reduce((sum, face) => sum + face, 0) / faces.length : 0,
+    expectedMean: (sides + 1) / 2,
+    longestStreak,
+    chiSquare,
+    fairness,
+  }
+}
+
+// Upper regularized incomplete gamma function Q(a, x), after Numerical Recipes
+function regularizedGammaQ(a: number, x: number) {
+  if (x < a + 1)
+    return 1 - gammaSeries(a, x)
+  return gammaContinuedFraction(a, x)
+}
+
+function gammaSeries(a: number, x: number) {
+  let sum = 1 / a
+  let term = sum
+  for (let n = 1; n < 1000; n++) {
+    term *= x / (a + n)
+    sum += term
+    if (Math.abs(term) < Math.abs(sum) * 1e-15)
+      break
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a))
+}
+
+function gammaContinuedFraction(a: number, x: number) {
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny)
+      d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny)
+      c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-15)
+      break
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h
+}
+
+// Lanczos approximation
+function logGamma(z: number): number {
+  const coefficients = [
+    676.5203681218851,
+    -1259.1392167224028,
+    771.32342877765313,
+    -176.61502916214059,
+    12.507343278686905,
+    -0.13857109526572012,
+    9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ]
+  if (z < 0.5)
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z)
+
+  z -= 1
+  let x = 0.99999999999980993
+  coefficients.forEach((coefficient, i) => x += coefficient / (z + i + 1))
+  const t = z + coefficients.length - 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x)
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { THEMES, getPipMaterial, getSurfaceMaterial, releaseMaterials, retainMaterials } from './theme'
+
+describe('theme materials', () => {
+  it('are shared by dice of a theme', () => {
+    expect(getSurfaceMaterial(THEMES.classic)).toBe(getSurfaceMaterial({ ...THEMES.classic }))
+  })
+
+  it('are disposed once no mesh wears them', () => {
+    const ruby = getPipMaterial(THEMES.ruby)
+    const dispose = vi.spyOn(ruby, 'dispose')
+    retainMaterials([ruby])
+    retainMaterials([ruby])
+
+    releaseMaterials([ruby])
+    expect(dispose).not.toHaveBeenCalled()
+    expect(getPipMaterial(THEMES.ruby)).toBe(ruby)
+
+    releaseMaterials([ruby])
+    expect(dispose).toHaveBeenCalledOnce()
+    expect(getPipMaterial(THEMES.ruby)).not.toBe(ruby)
+  })
+
+  it('survive being swapped for themselves', () => {
+    const gold = getPipMaterial(THEMES.gold)
+    const dispose = vi.spyOn(gold, 'dispose')
+    retainMaterials([gold])
+    // The dice are set again in the same theme: the new meshes take it before the old let go
+    retainMaterials([getPipMaterial(THEMES.gold)])
+    releaseMaterials([gold])
+    expect(dispose).not.toHaveBeenCalled()
+    expect(getPipMaterial(THEMES.gold)).toBe(gold)
+    releaseMaterials([gold])
+  })
+})
@@ -0,0 +1,192 @@
+import * as THREE from 'three'
+
+/**
+ * How the dice look. A theme is per die, so players can tell their dice apart; materials are
+ * cached per theme, shared by all dice wearing it and disposed once none does, see
+ * `retainMaterials`.
+ */
+
+export type DieMaterial = 'plastic' | 'metal' | 'glass' | 'wood' | 'marble'
+
+export const DIE_MATERIALS: DieMaterial[] = ['plastic', 'metal', 'glass', 'wood', 'marble']
+
+export interface DieTheme {
+  /** CSS hex color of the body */
+  color: string
+  material: DieMaterial
+  /** CSS hex color of the pips and numbers */
+  pipColor: string
+  /** Rounding of the edges of a d6 */
+  edgeRadius: number
+}
+
+export type ThemeName = 'classic' | 'ruby' | 'gold' | 'crystal' | 'oak' | 'marble'
+
+export const THEMES: Record<ThemeName, DieTheme> = {
+  classic: { color: '#eeeeee', material: 'plastic', pipColor: '#000000', edgeRadius: 0.07 },
+  ruby: { color: '#b0102a', material: 'plastic', pipColor: '#ffffff', edgeRadius: 0.07 },
+  gold: { color: '#d4a017', material: 'metal', pipColor: '#000000', edgeRadius: 0.05 },
+  crystal: { color: '#8ecfff', material: 'glass', pipColor: '#ffffff', edgeRadius: 0.1 },
+  oak: { color: '#c08a4f', material: 'wood', pipColor: '#2b1a0c', edgeRadius: 0.12 },
+  marble: { color: '#ffffff', material: 'marble', pipColor: '#1c2a3a', edgeRadius: 0.04 },
+}
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[]
+
+export const DEFAULT_THEME = THEMES.classic
+
+/**
+ * - `carved`: the pips are cut into the geometry, which takes a finely subdivided box
+ * - `normal-map`: a plain rounded box, the pips are painted on and only shaded as if carved
+ */
+export type PipStyle = 'carved' | 'normal-map'
+
+export const PIP_STYLES: PipStyle[] = ['carved', 'normal-map']
+
+/** Pip carving of the d6, the same for all dice */
+export interface PipSettings {
+  style: PipStyle
+  notchRadius: number
+  notchDepth: number
+}
+
+export const DEFAULT_PIPS: PipSettings = {
+  style: 'carved',
+  notchRadius: 0.12,
+  notchDepth: 0.1,
+}
+
+const MATERIAL_PROPERTIES: Record<DieMaterial, THREE.MeshPhysicalMaterialParameters> = {
+  plastic: { roughness: 0.5, metalness: 0, clearcoat: 0.3 },
+  metal: { roughness: 0.3, metalness: 1 },
+  glass: { roughness: 0.05, metalness: 0, transmission: 0.9, ior: 1.5 },
+  wood: { roughness: 0.8, metalness: 0 },
+  marble: { roughness: 0.2, metalness: 0, clearcoat: 0.6 },
+}
+
+const materials = new Map<string, THREE.Material>()
+// How many meshes that are drawn wear each material
+const materialUsers = new Map<THREE.Material, number>()
+let woodTexture: THREE.Texture | undefined
+let marbleTexture: THREE.Texture | undefined
+
+/** The theme `theme` is equal to, if any */
+export function getThemeName(theme: DieTheme): ThemeName | undefined {
+  return THEME_NAMES.find(name =>
+    (Object.keys(THEMES[name]) as (keyof DieTheme)[]).every(key => THEMES[name][key] === theme[key]))
+}
+
+/**
+ * Body of a die. With `map`, a custom face drawn in its own colors, the theme only sets how the
+ * surface reflects light. `normalMap` shades pips that are not carved into the geometry.
+ */
+export function getSurfaceMaterial(theme: DieTheme, map?: THREE.Texture, normalMap?: THREE.Texture) {
+  return cached(`surface:${theme.color}:${theme.material}:${map?.uuid ?? ''}:${normalMap?.uuid ?? ''}`, () => new THREE.MeshPhysicalMaterial({
+    ...MATERIAL_PROPERTIES[theme.material],
+    color: map ? 0xFFFFFF : theme.color,
+    map: map ?? getPattern(theme.material),
+    normalMap: normalMap ?? null,
+  }))
+}
+
+/** Shows through the carved pips of a d6, or is painted onto them */
+export function getPipMaterial(theme: DieTheme) {
+  return cached(`pips:${theme.pipColor}`, () => new THREE.MeshStandardMaterial({
+    color: theme.pipColor,
+    roughness: 0.2,
+    side: THREE.DoubleSide,
+  }))
+}
+
+/** Number decal of a face, `map` is drawn in white and tinted with the pip color */
+export function getLabelMaterial(theme: DieTheme, map: THREE.Texture) {
+  return cached(`label:${theme.pipColor}:${map.uuid}`, () => new THREE.MeshStandardMaterial({
+    color: theme.pipColor,
+    map,
+    transparent: true,
+    depthWrite: false,
+  }))
+}
+
+/** Keeps `used` from being disposed by `releaseMaterials`, call for every mesh that is drawn */
+export function retainMaterials(used: THREE.Material[]) {
+  used.forEach(material => materialUsers.set(material, (materialUsers.get(material) ?? 0) + 1))
+}
+
+/**
+ * Undoes `retainMaterials` and disposes every cached material no mesh wears any more, e.g.
+ * those of a theme that was switched away from. Their textures are left to whoever made them.
+ */
+export function releaseMaterials(unused: THREE.Material[]) {
+  unused.forEach((material) => {
+    const users = (materialUsers.get(material) ?? 0) - 1
+    if (users > 0)
+      materialUsers.set(material, users)
+    else
+      materialUsers.delete(material)
+  })
+  materials.forEach((material, key) => {
+    if (materialUsers.has(material))
+      return
+    material.dispose()
+    materials.delete(key)
+  })
+}
+
+function cached<T extends THREE.Material>(key: string, create: () => T) {
+  let material = materials.get(key)
+  if (!material) {
+    material = create()
+    materials.set(key, material)
+  }
+  return material as T
+}
+
+/** Grayscale grain, tinted by the die color */
+function getPattern(material: DieMaterial) {
+  if (material === 'wood')
+    return woodTexture ??= drawPattern(drawWood)
+  if (material === 'marble')
+    return marbleTexture ??= drawPattern(drawMarble)
+  return null
+}
+
+function drawPattern(draw: (ctx: CanvasRenderingContext2D, size: number) => void) {
+  const size = 256
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = size
+  draw(canvas.getContext('2d')!, size)
+  return new THREE.CanvasTexture(canvas)
+}
+
+function drawWood(ctx: CanvasRenderingContext2D, size: number) {
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, size, size)
+  for (let ring = 0; ring < 24; ring++) {
+    ctx.strokeStyle = `rgba(60, 40, 20, ${0.15 + 0.2 * Math.random()})`
+    ctx.lineWidth = 1 + 3 * Math.random()
+    ctx.beginPath()
+    const x = ring / 24 * size
+    for (let y = 0; y <= size; y += 8)
+      ctx.lineTo(x + 6 * Math.sin(y / 30 + ring), y)
+    ctx.stroke()
+  }
+}
+
+function drawMarble(ctx: CanvasRenderingContext2D, size: number) {
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, size, size)
+  for (let vein = 0; vein < 8; vein++) {
+    ctx.strokeStyle = `rgba(80, 90, 100, ${0.2 + 0.3 * Math.random()})`
+    ctx.lineWidth = 0.5 + 2 * Math.random()
+    ctx.beginPath()
+    let [x, y] = [Math.random() * size, 0]
+    ctx.moveTo(x, y)
+    while (y < size) {
+      x += (Math.random() - 0.5) * 30
+      y += 10 + Math.random() * 20
+      ctx.lineTo(x, y)
+    }
+    ctx.stroke()
+  }
+}
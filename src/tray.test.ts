@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_TRAY, isValidTray, parseTray } from './tray'
+
+describe('parseTray', () => {
+  it('fills in missing fields with the defaults', () => {
+    expect(parseTray('{}')).toEqual(DEFAULT_TRAY)
+    expect(parseTray('{"width":12,"texture":"felt","floor":{"friction":0.8}}')).toEqual({
+      ...DEFAULT_TRAY,
+      width: 12,
+      texture: 'felt',
+      floor: { ...DEFAULT_TRAY.floor, friction: 0.8 },
+    })
+  })
+
+  it('rejects anything but a valid tray', () => {
+    const invalid = [
+      '',
+      '{',
+      'null',
+      '12',
+      '"tray"',
+      '[]',
+      '{"width":2}',
+      '{"depth":31}',
+      '{"wallHeight":-1}',
+      '{"width":"12"}',
+      '{"showWalls":1}',
+      '{"texture":"marble"}',
+      '{"floor":{"restitution":1.5}}',
+      '{"walls":{"friction":-0.1}}',
+      '{"walls":null,"floor":{"friction":null}}',
+    ]
+    invalid.forEach(json => expect(parseTray(json), json).toBeUndefined())
+  })
+})
+
+describe('isValidTray', () => {
+  it('accepts the default tray', () => {
+    expect(isValidTray(DEFAULT_TRAY)).toBe(true)
+  })
+})
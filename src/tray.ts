@@ -0,0 +1,74 @@
+/**
+ * The tray the dice are thrown into. Physics only reads the dimensions and surfaces; the
+ * texture and wall visibility are for rendering.
+ */
+
+export type TrayTexture = 'none' | 'felt' | 'wood'
+
+export const TRAY_TEXTURES: TrayTexture[] = ['none', 'felt', 'wood']
+
+export interface SurfaceMaterial {
+  friction: number
+  restitution: number
+}
+
+export interface TrayConfig {
+  /** Along x */
+  width: number
+  /** Along z */
+  depth: number
+  /** 0 for an open table the dice can roll off */
+  wallHeight: number
+  showWalls: boolean
+  texture: TrayTexture
+  floor: SurfaceMaterial
+  walls: SurfaceMaterial
+}
+
+export const DEFAULT_TRAY: TrayConfig = {
+  width: 8,
+  depth: 8,
+  wallHeight: 12,
+  showWalls: false,
+  texture: 'none',
+  floor: { friction: 0.3, restitution: 0.3 },
+  walls: { friction: 0.3, restitution: 0.3 },
+}
+
+// Below this the dice don't fit, above it they are too small to see
+const MIN_SIZE = 3
+const MAX_SIZE = 30
+
+export function isValidTray(tray: TrayConfig): tray is TrayConfig {
+  const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max
+  const isSurface = (surface: SurfaceMaterial | undefined) => !!surface && inRange(surface.friction, 0, 2) && inRange(surface.restitution, 0, 1)
+  return !!tray
+    && inRange(tray.width, MIN_SIZE, MAX_SIZE)
+    && inRange(tray.depth, MIN_SIZE, MAX_SIZE)
+    && inRange(tray.wallHeight, 0, MAX_SIZE)
+    && typeof tray.showWalls === 'boolean'
+    && TRAY_TEXTURES.includes(tray.texture)
+    && isSurface(tray.floor)
+    && isSurface(tray.walls)
+}
+
+/** Parses a tray from JSON, e.g. the `tray` URL parameter. Missing fields keep their defaults */
+export function parseTray(json: string): TrayConfig | undefined {
+  try {
+    const parsed = JSON.parse(json)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))
+      return undefined
+    const { floor, walls, ...rest } = parsed
+    const tray = {
+      ...DEFAULT_TRAY,
+      ...rest,
+      floor: { ...DEFAULT_TRAY.floor, ...floor },
+      walls: { ...DEFAULT_TRAY.walls, ...walls },
+    }
+    return isValidTray(tray) ? tray : undefined
+  }
+  catch {
+    // Invalid JSON
+    return undefined
+  }
+}
@@ -0,0 +1,85 @@
+import * as THREE from 'three'
+import { getTrayWalls } from './simulation'
+import type { TrayConfig, TrayTexture } from './tray'
+
+/**
+ * The visible tray: a textured floor and the walls, matching the bodies `getTrayWalls` puts
+ * into the physics world.
+ */
+
+/** Replaces the floor and walls in `group` with those of `tray`, on a table at `floorY` */
+export function updateTrayGroup(group: THREE.Group, tray: TrayConfig, floorY: number) {
+  clearTrayGroup(group)
+
+  const { width, depth, texture, showWalls } = tray
+  if (texture !== 'none') {
+    const floor = new THREE.Mesh(
+      new THREE.PlaneGeometry(width, depth),
+      new THREE.MeshStandardMaterial({ map: createTrayTexture(texture, width / 2, depth / 2) }),
+    )
+    floor.receiveShadow = true
+    // Just above the shadow catcher
+    floor.position.y = floorY + 0.001
+    floor.quaternion.setFromAxisAngle(new THREE.Vector3(-1, 0, 0), Math.PI * 0.5)
+    group.add(floor)
+  }
+
+  if (showWalls) {
+    getTrayWalls(tray).forEach(({ center, halfExtents }) => {
+      const wall = new THREE.Mesh(
+        new THREE.BoxGeometry(...halfExtents.map(value => value * 2)),
+        texture === 'wood'
+          ? new THREE.MeshStandardMaterial({ map: createTrayTexture('wood', halfExtents[0], halfExtents[2]) })
+          : new THREE.MeshStandardMaterial({ color: 0xFFFFFF, transparent: true, opacity: 0.3 }),
+      )
+      wall.position.set(center[0], floorY + center[1], center[2])
+      wall.castShadow = true
+      group.add(wall)
+    })
+  }
+}
+
+/** Removes and disposes everything `updateTrayGroup` added */
+export function clearTrayGroup(group: THREE.Group) {
+  group.children.forEach((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      child.material.map?.dispose()
+      child.material.dispose()
+    }
+  })
+  group.clear()
+}
+
+/** Procedural felt or wood, repeated every two units */
+function createTrayTexture(type: Exclude<TrayTexture, 'none'>, repeatX: number, repeatY: number) {
+  const size = 256
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = size
+  const ctx = canvas.getContext('2d')!
+
+  if (type === 'felt') {
+    ctx.fillStyle = '#2E6B3F'
+    ctx.fillRect(0, 0, size, size)
+    // Fibers
+    for (let i = 0; i < 4000; i++) {
+      ctx.fillStyle = Math.random() < 0.5 ? 'rgba(0, 0, 0, 0.08)' : 'rgba(255, 255, 255, 0.06)'
+      ctx.fillRect(Math.random() * size, Math.random() * size, 1 + Math.random() * 2, 1)
+    }
+  }
+  else {
+    ctx.fillStyle = '#9A6A3A'
+    ctx.fillRect(0, 0, size, size)
+    // Grain, periodic in y so the texture tiles
+    for (let y = 0; y < size; y++) {
+      const grain = Math.sin(y / size * Math.PI * 12 + Math.sin(y / size * Math.PI * 4) * 2)
+      ctx.fillStyle = `rgba(60, 30, 10, ${0.1 + 0.1 * grain})`
+      ctx.fillRect(0, y, size, 1)
+    }
+  }
+
+  const map = new THREE.CanvasTexture(canvas)
+  map.wrapS = map.wrapT = THREE.RepeatWrapping
+  map.repeat.set(repeatX, repeatY)
+  return map
+}
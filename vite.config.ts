@@ -1,7 +1,29 @@
 import { defineConfig } from 'vite'
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
+  // The library is loaded from wherever it was copied to, so is the simulation worker
+  base: mode === 'lib' ? './' : '/',
+  // The simulation worker is started as a module, see `src/simulationClient.ts`
+  worker: {
+    format: 'es',
+  },
   build: {
     minify: false,
-  }
-})
+    // `vite build --mode lib` builds the dice roller as a library, see `src/index.ts`
+    ...mode === 'lib' && {
+      outDir: 'dist/lib',
+      copyPublicDir: false,
+      lib: {
+        entry: {
+          'dice-roller': 'src/index.ts',
+          // Registers `<dice-roller>`, see `src/diceRollerElement.ts`
+          'dice-roller-element': 'src/element.ts',
+        },
+        formats: ['es'],
+      },
+      rollupOptions: {
+        external: ['cannon-es', 'seedrandom', /^three(\/|$)/],
+      },
+    },
+  },
+}))